@@ -2,5 +2,9 @@ module.exports = {
     transform: { '^.+\\.ts?$': 'ts-jest' },
     testEnvironment: 'node',
     testRegex: '/src/.*\\.(test|spec)?\\.(ts|tsx)$',
-    moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx', 'json', 'node']
-};
\ No newline at end of file
+    moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx', 'json', 'node'],
+    // Mirrors the `paths` in tsconfig.json and the aliases in src/paths.ts
+    moduleNameMapper: {
+        '^\\$(routes|controllers|services|validations|utils|entities|middlewares|seeders|config|pkg|app|server|jobs)/(.*)$': '<rootDir>/src/$1/$2'
+    }
+};
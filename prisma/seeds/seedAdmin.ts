@@ -18,6 +18,7 @@ export async function seedAdmin(prisma:PrismaClient){
         })
         
         console.log("Admin seeded")
+        return
     }
 
     console.log("Admin already seeded")
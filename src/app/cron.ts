@@ -0,0 +1,17 @@
+import server from "$server/instance";
+import Logger from '$pkg/logger';
+import { onShutdown } from "$utils/shutdown.utils";
+
+const startCronApp = () => {
+  Logger.info("Starting App : cron")
+  const cronServer = server.cronServer();
+  cronServer.start();
+  Logger.info(`Cron App is Running ${cronServer.jobs.map((job) => `${job.name} (${job.schedule})`).join(", ") || "no job"}`)
+
+  // Running jobs finish (or time out) before prisma disconnects
+  onShutdown("cron scheduler", () => cronServer.stop());
+
+  return cronServer;
+};
+
+export default startCronApp;
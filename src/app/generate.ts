@@ -0,0 +1,56 @@
+import fs from "fs";
+import path from "path";
+import Logger from '$pkg/logger';
+import { buildDomainFiles, buildPrismaModelStub, getDomainNames, registerRoutesInIndex, registerRoutesInRegistry } from "$utils/scaffold.utils";
+
+/*
+  Scaffold a new domain from the project root :
+
+    npm run generate -- --name=Product [--path=products] [--prisma]
+
+  it creates the entity, validations, service, controller and routes files,
+  registers the routes in routes/registry.ts and routes/index.ts,
+  and with --prisma appends a model stub to prisma/schema.prisma.
+  It runs from src/generate.ts, so it works without a valid .env.
+*/
+const startGenerateApp = (args: Record<string, string>) => {
+  const srcDir = path.resolve(process.cwd(), "src");
+  const schemaPath = path.resolve(process.cwd(), "prisma", "schema.prisma");
+
+  try {
+    if (!args["name"]) throw new Error("Missing domain name, usage : npm run generate -- --name=<Name>");
+
+    const names = getDomainNames(args["name"], args["path"] || undefined);
+    const files = buildDomainFiles(names);
+
+    const existingFiles = Object.keys(files).filter((file) => fs.existsSync(path.join(srcDir, file)));
+    if (existingFiles.length > 0) throw new Error(`Domain ${names.pascal} already exists : ${existingFiles.join(", ")}`);
+
+    // Patch first, so nothing is written when the registry can't be updated
+    const registryPath = path.join(srcDir, "routes", "registry.ts");
+    const indexPath = path.join(srcDir, "routes", "index.ts");
+    const registry = registerRoutesInRegistry(fs.readFileSync(registryPath, "utf8"), names);
+    const index = registerRoutesInIndex(fs.readFileSync(indexPath, "utf8"), names);
+
+    for (const file in files) {
+      fs.writeFileSync(path.join(srcDir, file), files[file]);
+      Logger.info(`Created src/${file}`);
+    }
+
+    fs.writeFileSync(registryPath, registry);
+    fs.writeFileSync(indexPath, index);
+    Logger.info(`Registered ${names.pascal}Routes at /${names.path}`);
+
+    if ("prisma" in args) {
+      fs.appendFileSync(schemaPath, buildPrismaModelStub(names));
+      Logger.info(`Appended model ${names.pascal} to prisma/schema.prisma, run a migration to create the table`);
+    } else {
+      Logger.info(`Add model ${names.pascal} to prisma/schema.prisma and run a migration before starting the app`);
+    }
+  } catch (err) {
+    Logger.error(`Generate : ${err}`);
+    process.exitCode = 1;
+  }
+};
+
+export default startGenerateApp;
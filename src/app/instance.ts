@@ -1,7 +1,9 @@
 import startRestApp from './rest';
+import startCronApp from './cron';
 
 const app = {
-    restApp: startRestApp
+    restApp: startRestApp,
+    cronApp: startCronApp
 }
 
-export default app;
\ No newline at end of file
+export default app;
@@ -1,14 +1,24 @@
 
 import server from "$server/instance";
 import Logger from '$pkg/logger';
+import { getConfig } from "$config/index";
+import { closeServer, onShutdown } from "$utils/shutdown.utils";
+import { interruptRuns } from "$services/CronService";
 
 const startRestApp =  () => {
   Logger.info("Starting App : rest")
   const app = server.restServer();
-  const PORT: number = Number(process.env.NODE_LOCAL_PORT) || 3010;
-  return app.listen(PORT, () => {
+  const PORT: number = getConfig().port;
+  const httpServer = app.listen(PORT, () => {
     Logger.info(`Rest App is Running at Port ${PORT}`)
   });
+
+  // Cron jobs started with "run now" are interrupted once the requests are drained, their run is recorded before prisma disconnects
+  onShutdown("cron runs", interruptRuns);
+  // Drain in-flight requests before the shared clients (prisma, ...) are closed
+  onShutdown("rest server", () => closeServer(httpServer));
+
+  return httpServer;
 };
 
 
@@ -0,0 +1,114 @@
+import { ErrorStructure, generateErrorStructure } from "$validations/helper";
+import { Schema, v } from "$validations/schema";
+import { LOG_LEVELS, LogFormat, LogLevel } from "$pkg/logger/utils";
+import { MAIL_TRANSPORTS, MailTransportName } from "$pkg/mailer/interfaces";
+
+export const ENVIRONMENTS = ["dev", "staging", "production"] as const;
+export type Environment = typeof ENVIRONMENTS[number];
+
+// Variables documented in example.env, as validated from `process.env`
+export interface Env {
+  ENVIRONMENT: Environment
+  NODE_LOCAL_PORT: number
+  DATABASE_URL: string
+  JWT_SECRET: string
+  ACCESS_TOKEN_EXPIRES_IN: string
+  REFRESH_TOKEN_EXPIRES_IN_DAYS: number
+  ALLOWED_ORIGINS?: string
+  LOG_LEVEL?: LogLevel
+  LOG_FORMAT: LogFormat
+  LOG_DIR: string
+  LOG_RETENTION: string
+  LOG_MAX_SIZE?: string
+  LOG_TIMEZONE: string
+  SHUTDOWN_TIMEOUT_MS: number
+  HEALTH_CHECK_TIMEOUT_MS: number
+  MAIL_TRANSPORT: MailTransportName
+  MAIL_FROM: string
+  MAIL_DIR: string
+  MAIL_MAX_ATTEMPTS: number
+  SMTP_HOST?: string
+  SMTP_PORT: number
+  SMTP_SECURE: boolean
+  SMTP_USER?: string
+  SMTP_PASSWORD?: string
+  MIDTRANS_SERVER_KEY?: string
+  MIDTRANS_CLIENT_KEY?: string
+  MIDTRANS_IS_PRODUCTION: boolean
+  MIDTRANS_API_URL?: string
+  MIDTRANS_SNAP_URL?: string
+}
+
+export const EnvSchema: Schema<Env> = {
+  ENVIRONMENT: v.enum(ENVIRONMENTS),
+  NODE_LOCAL_PORT: v.number().int().min(1).max(65535).default(3010),
+  DATABASE_URL: v.string().pattern(/^mysql:\/\//, "{field} must be a mysql:// connection string"),
+  JWT_SECRET: v.string().min(16),
+  // jsonwebtoken duration, a number without unit would be read as milliseconds
+  ACCESS_TOKEN_EXPIRES_IN: v.string().pattern(/^\d+(s|m|h|d|w|y)$/, "{field} must be a duration like 15m, 12h or 7d").default("15m"),
+  REFRESH_TOKEN_EXPIRES_IN_DAYS: v.number().int().min(1).default(30),
+  // Comma separated, required outside of dev
+  ALLOWED_ORIGINS: v.string().optional(),
+  LOG_LEVEL: v.enum(LOG_LEVELS).optional(),
+  LOG_FORMAT: v.enum(["text", "json"] as const).default("text"),
+  LOG_DIR: v.string().default("logs"),
+  LOG_RETENTION: v.string().pattern(/^\d+d?$/, "{field} must be a number of days (30d) or of files (10)").default("30d"),
+  LOG_MAX_SIZE: v.string().pattern(/^\d+[kmg]?$/, "{field} must be a size like 500k, 20m or 1g").optional(),
+  // IANA timezone, only applied by the logger
+  LOG_TIMEZONE: v.string().default("Asia/Jakarta"),
+  SHUTDOWN_TIMEOUT_MS: v.number().int().min(0).default(10000),
+  HEALTH_CHECK_TIMEOUT_MS: v.number().int().min(1).default(3000),
+  MAIL_TRANSPORT: v.enum(MAIL_TRANSPORTS).default("json"),
+  MAIL_FROM: v.string().default("NodeWave <no-reply@localhost>"),
+  MAIL_DIR: v.string().default("logs/mails"),
+  MAIL_MAX_ATTEMPTS: v.number().int().min(1).default(8),
+  // Required when MAIL_TRANSPORT is smtp
+  SMTP_HOST: v.string().optional(),
+  SMTP_PORT: v.number().int().min(1).max(65535).default(587),
+  // true for implicit TLS (port 465), STARTTLS is used otherwise when the server offers it
+  SMTP_SECURE: v.boolean().default(false),
+  SMTP_USER: v.string().optional(),
+  SMTP_PASSWORD: v.string().optional(),
+  // Required to create payments and verify the notifications of Midtrans, always in production
+  MIDTRANS_SERVER_KEY: v.string().optional(),
+  MIDTRANS_CLIENT_KEY: v.string().optional(),
+  MIDTRANS_IS_PRODUCTION: v.boolean().default(false),
+  // Base URLs of the Core API and Snap API, only to point them to a local stub
+  MIDTRANS_API_URL: v.string().pattern(/^https?:\/\//, "{field} must be an http(s) URL").optional(),
+  MIDTRANS_SNAP_URL: v.string().pattern(/^https?:\/\//, "{field} must be an http(s) URL").optional(),
+};
+
+const EXAMPLE_JWT_SECRET = "AVERYSECRETjWTcoDE";
+
+// Rules depending on ENVIRONMENT, checked once every variable is valid on its own
+export function checkEnvironmentRules(env: Env): ErrorStructure[] {
+  const errors: ErrorStructure[] = [];
+
+  if (env.ENVIRONMENT !== "dev" && !env.ALLOWED_ORIGINS) {
+    errors.push(generateErrorStructure("ALLOWED_ORIGINS", `ALLOWED_ORIGINS cannot be empty when ENVIRONMENT is ${env.ENVIRONMENT}`));
+  }
+
+  if (env.ENVIRONMENT === "production" && (env.JWT_SECRET.length < 32 || env.JWT_SECRET === EXAMPLE_JWT_SECRET)) {
+    errors.push(generateErrorStructure("JWT_SECRET", "JWT_SECRET must be a random value of at least 32 characters in production"));
+  }
+
+  if (env.MAIL_TRANSPORT === "smtp" && !env.SMTP_HOST) {
+    errors.push(generateErrorStructure("SMTP_HOST", "SMTP_HOST cannot be empty when MAIL_TRANSPORT is smtp"));
+  }
+
+  // Mails sent with the memory transport are lost on restart, it is only meant for tests
+  if (env.ENVIRONMENT === "production" && env.MAIL_TRANSPORT === "memory") {
+    errors.push(generateErrorStructure("MAIL_TRANSPORT", "MAIL_TRANSPORT cannot be memory in production"));
+  }
+
+  // Without it every Midtrans notification is refused, the payments would never leave PENDING
+  if (env.ENVIRONMENT === "production" && !env.MIDTRANS_SERVER_KEY) {
+    errors.push(generateErrorStructure("MIDTRANS_SERVER_KEY", "MIDTRANS_SERVER_KEY cannot be empty in production"));
+  }
+
+  if (env.ENVIRONMENT === "production" && (env.MIDTRANS_API_URL || env.MIDTRANS_SNAP_URL)) {
+    errors.push(generateErrorStructure("MIDTRANS_API_URL", "MIDTRANS_API_URL and MIDTRANS_SNAP_URL cannot be set in production"));
+  }
+
+  return errors;
+}
@@ -0,0 +1,80 @@
+import { ConfigError, loadConfig } from "./index";
+
+describe('test loadConfig', ()=>{
+    const env = {
+        ENVIRONMENT: "dev",
+        DATABASE_URL: "mysql://root:@localhost:3306/db_name",
+        JWT_SECRET: "AVERYSECRETjWTcoDE",
+    }
+
+    test('should apply the defaults of the documented variables', ()=>{
+        const config = loadConfig(env)
+
+        expect(config).toMatchObject({
+            environment: "dev",
+            isDev: true,
+            isProduction: false,
+            port: 3010,
+            allowedOrigins: [],
+            jwt: { secret: "AVERYSECRETjWTcoDE", accessTokenExpiresIn: "15m", refreshTokenExpiresInDays: 30 },
+            log: { level: undefined, format: "text", dir: "logs", retention: "30d", maxSize: undefined, timezone: "Asia/Jakarta" },
+            shutdownTimeoutMs: 10000,
+            healthCheckTimeoutMs: 3000,
+        })
+    })
+
+    test('should coerce the values', ()=>{
+        const config = loadConfig({ ...env, NODE_LOCAL_PORT: "8080", ALLOWED_ORIGINS: "https://a.com, https://b.com", LOG_MAX_SIZE: "" })
+
+        expect(config.port).toBe(8080)
+        expect(config.allowedOrigins).toEqual(["https://a.com", "https://b.com"])
+        expect(config.log.maxSize).toBeUndefined()
+    })
+
+    test('should list every missing or invalid variable', ()=>{
+        let error: unknown
+        try {
+            loadConfig({ NODE_LOCAL_PORT: "http", ACCESS_TOKEN_EXPIRES_IN: "900", LOG_LEVEL: "verbose" })
+        } catch (err) {
+            error = err
+        }
+
+        expect(error).toBeInstanceOf(ConfigError)
+        expect((error as ConfigError).errors.map((error) => error.field)).toEqual([
+            "ENVIRONMENT", "NODE_LOCAL_PORT", "DATABASE_URL", "JWT_SECRET", "ACCESS_TOKEN_EXPIRES_IN", "LOG_LEVEL"
+        ])
+        expect((error as ConfigError).message).toContain("NODE_LOCAL_PORT must be a number")
+    })
+
+    test('should apply the rules of the environment', ()=>{
+        expect(() => loadConfig({ ...env, ENVIRONMENT: "staging" })).toThrow("ALLOWED_ORIGINS cannot be empty when ENVIRONMENT is staging")
+        expect(() => loadConfig({ ...env, ENVIRONMENT: "production", ALLOWED_ORIGINS: "https://a.com" }))
+            .toThrow("JWT_SECRET must be a random value of at least 32 characters in production")
+
+        expect(() => loadConfig({ ...env, ENVIRONMENT: "production", ALLOWED_ORIGINS: "https://a.com", JWT_SECRET: "x".repeat(32) }))
+            .toThrow("MIDTRANS_SERVER_KEY cannot be empty in production")
+
+        const config = loadConfig({ ...env, ENVIRONMENT: "production", ALLOWED_ORIGINS: "https://a.com", JWT_SECRET: "x".repeat(32), MIDTRANS_SERVER_KEY: "Mid-server-live" })
+        expect(config.isProduction).toBe(true)
+    })
+
+    test('should check the mail transport', ()=>{
+        expect(loadConfig(env).mail).toMatchObject({ transport: "json", dir: "logs/mails", maxAttempts: 8, smtp: { port: 587, secure: false } })
+        expect(() => loadConfig({ ...env, MAIL_TRANSPORT: "smtp" })).toThrow("SMTP_HOST cannot be empty when MAIL_TRANSPORT is smtp")
+        expect(() => loadConfig({ ...env, ENVIRONMENT: "production", ALLOWED_ORIGINS: "https://a.com", JWT_SECRET: "x".repeat(32), MIDTRANS_SERVER_KEY: "Mid-server-live", MAIL_TRANSPORT: "memory" }))
+            .toThrow("MAIL_TRANSPORT cannot be memory in production")
+
+        const config = loadConfig({ ...env, MAIL_TRANSPORT: "smtp", SMTP_HOST: "smtp.mail.com", SMTP_PORT: "465", SMTP_SECURE: "true" })
+        expect(config.mail.smtp).toEqual({ host: "smtp.mail.com", port: 465, secure: true, user: undefined, password: undefined })
+    })
+
+    test('should only allow the midtrans stub URLs outside of production', ()=>{
+        const stub = { MIDTRANS_SERVER_KEY: "SB-Mid-server-test", MIDTRANS_API_URL: "http://localhost:4010" }
+
+        expect(loadConfig({ ...env, ...stub }).midtrans).toEqual({
+            serverKey: "SB-Mid-server-test", clientKey: undefined, isProduction: false, apiUrl: "http://localhost:4010", snapUrl: undefined
+        })
+        expect(() => loadConfig({ ...env, ...stub, ENVIRONMENT: "production", ALLOWED_ORIGINS: "https://a.com", JWT_SECRET: "x".repeat(32) }))
+            .toThrow("MIDTRANS_API_URL and MIDTRANS_SNAP_URL cannot be set in production")
+    })
+});
@@ -0,0 +1,143 @@
+import { ErrorStructure } from "$validations/helper";
+import { parseSchema } from "$validations/schema";
+import { LogFormat, LogLevel } from "$pkg/logger/utils";
+import { MailTransportName } from "$pkg/mailer/interfaces";
+import { Env, EnvSchema, Environment, checkEnvironmentRules } from "./env";
+
+/*
+  Typed configuration of the app, built once from the environment (see example.env) :
+
+    import { getConfig } from "$config/index";
+
+    jwt.sign(payload, getConfig().jwt.secret)
+
+  Read it through `getConfig()` instead of `process.env`, every value is validated, defaulted and typed.
+  src/index.ts loads it before anything else (see config/load.ts), so a misconfigured process stops at startup
+  with every missing or invalid variable instead of failing at request time.
+*/
+export interface Config {
+  environment: Environment
+  isDev: boolean
+  isProduction: boolean
+  port: number
+  databaseUrl: string
+  // Empty in dev, where every origin is allowed
+  allowedOrigins: string[]
+  jwt: {
+    secret: string
+    accessTokenExpiresIn: string
+    refreshTokenExpiresInDays: number
+  }
+  log: {
+    // Defaults to debug in dev and warn anywhere else, see pkg/logger
+    level?: LogLevel
+    format: LogFormat
+    dir: string
+    retention: string
+    maxSize?: string
+    timezone: string
+  }
+  shutdownTimeoutMs: number
+  healthCheckTimeoutMs: number
+  mail: {
+    // smtp, json (one file per mail in `dir`, for dev) or memory (for tests), see pkg/mailer
+    transport: MailTransportName
+    from: string
+    dir: string
+    maxAttempts: number
+    smtp: {
+      host?: string
+      port: number
+      secure: boolean
+      user?: string
+      password?: string
+    }
+  }
+  midtrans: {
+    serverKey?: string
+    clientKey?: string
+    isProduction: boolean
+    // Override the sandbox / production base URLs, e.g. with a local stub
+    apiUrl?: string
+    snapUrl?: string
+  }
+}
+
+export class ConfigError extends Error {
+  constructor(readonly errors: ErrorStructure[]) {
+    super(`Invalid environment variables :\n${errors.map((error) => `  - ${error.message}`).join("\n")}`);
+    this.name = "ConfigError";
+  }
+}
+
+function toConfig(env: Env): Config {
+  return {
+    environment: env.ENVIRONMENT,
+    isDev: env.ENVIRONMENT === "dev",
+    isProduction: env.ENVIRONMENT === "production",
+    port: env.NODE_LOCAL_PORT,
+    databaseUrl: env.DATABASE_URL,
+    allowedOrigins: (env.ALLOWED_ORIGINS ?? "").split(",").map((origin) => origin.trim()).filter(Boolean),
+    jwt: {
+      secret: env.JWT_SECRET,
+      accessTokenExpiresIn: env.ACCESS_TOKEN_EXPIRES_IN,
+      refreshTokenExpiresInDays: env.REFRESH_TOKEN_EXPIRES_IN_DAYS,
+    },
+    log: {
+      level: env.LOG_LEVEL,
+      format: env.LOG_FORMAT,
+      dir: env.LOG_DIR,
+      retention: env.LOG_RETENTION,
+      maxSize: env.LOG_MAX_SIZE,
+      timezone: env.LOG_TIMEZONE,
+    },
+    shutdownTimeoutMs: env.SHUTDOWN_TIMEOUT_MS,
+    healthCheckTimeoutMs: env.HEALTH_CHECK_TIMEOUT_MS,
+    mail: {
+      transport: env.MAIL_TRANSPORT,
+      from: env.MAIL_FROM,
+      dir: env.MAIL_DIR,
+      maxAttempts: env.MAIL_MAX_ATTEMPTS,
+      smtp: {
+        host: env.SMTP_HOST,
+        port: env.SMTP_PORT,
+        secure: env.SMTP_SECURE,
+        user: env.SMTP_USER,
+        password: env.SMTP_PASSWORD,
+      },
+    },
+    midtrans: {
+      serverKey: env.MIDTRANS_SERVER_KEY,
+      clientKey: env.MIDTRANS_CLIENT_KEY,
+      isProduction: env.MIDTRANS_IS_PRODUCTION,
+      apiUrl: env.MIDTRANS_API_URL,
+      snapUrl: env.MIDTRANS_SNAP_URL,
+    },
+  };
+}
+
+/**
+ * Validate the environment and build the config
+ * @param env - defaults to `process.env`
+ * @throws ConfigError listing every missing or invalid variable
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): Config {
+  // An empty variable, e.g. `SMTP_HOST=` of example.env, is not set
+  const setVariables = Object.fromEntries(Object.entries(env).filter(([, value]) => value !== ""));
+
+  const result = parseSchema(EnvSchema, setVariables);
+  if (result.errors.length > 0) throw new ConfigError(result.errors);
+
+  const ruleErrors = checkEnvironmentRules(result.value!);
+  if (ruleErrors.length > 0) throw new ConfigError(ruleErrors);
+
+  return toConfig(result.value!);
+}
+
+let config: Config | undefined;
+
+// Config of the running process, validated on the first call
+export function getConfig(): Config {
+  config ??= loadConfig();
+  return config;
+}
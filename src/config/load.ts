@@ -0,0 +1,15 @@
+import Logger from "$pkg/logger";
+import { ConfigError, getConfig } from "./index";
+
+// Imported by src/index.ts before any app, stops the process when the environment is invalid
+try {
+  getConfig();
+} catch (err) {
+  if (err instanceof ConfigError) {
+    Logger.error("Invalid environment variables, see example.env :");
+    err.errors.forEach((error) => Logger.error(`  - ${error.message}`));
+  } else {
+    Logger.error(`Failed to load the config : ${err}`);
+  }
+  process.exit(1);
+}
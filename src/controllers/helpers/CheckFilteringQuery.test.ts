@@ -1,5 +1,7 @@
 import { Request } from 'express'; // Assuming you're using Express for handling requests
-import { checkFilteringQueryV2 } from './CheckFilteringQuery';
+import { FilteringPolicyV2 } from '$entities/Query';
+import { encodeCursor } from '$services/helpers/FilterQueryV2';
+import { FilteringQueryError, checkFilteringPolicyV2, checkFilteringQueryV2, parseFilteringQueryV2 } from './CheckFilteringQuery';
 
 describe('checkFilteringQueryV2', () => {
   it('should correctly parse request query parameters into FilteringQueryV2 object', () => {
@@ -9,7 +11,7 @@ describe('checkFilteringQueryV2', () => {
         orderRule: 'asc',
         filters: JSON.stringify({ category: 'electronics' }),
         searchFilters: JSON.stringify({ name: 'phone' }),
-        rangedFilters: JSON.stringify([{ field: 'price', min: 100, max: 500 }]),
+        rangedFilters: JSON.stringify([{ key: 'price', start: 100, end: 500 }]),
         rows: '10',
         page: '2',
       },
@@ -20,7 +22,7 @@ describe('checkFilteringQueryV2', () => {
       orderRule: 'asc',
       filters: { category: 'electronics' },
       searchFilters: { name: 'phone' },
-      rangedFilters: [{ field: 'price', min: 100, max: 500 }],
+      rangedFilters: [{ key: 'price', start: 100, end: 500 }],
       rows: 10,
       page: 2,
     };
@@ -30,6 +32,60 @@ describe('checkFilteringQueryV2', () => {
     expect(result).toEqual(expectedFilter);
   });
 
+  it('should normalize operator filters', () => {
+    const req: Request = {
+      query: {
+        filters: JSON.stringify({
+          deletedAt: { isNull: 'true' },
+          status: { in: 'PAID' },
+          type: { notIn: ['A', 'B'] },
+          price: [{ gt: 100 }, 5],
+        }),
+      },
+    } as unknown as Request;
+
+    const result = checkFilteringQueryV2(req);
+
+    expect(result.filters).toEqual({
+      deletedAt: { isNull: true },
+      status: { in: ['PAID'] },
+      type: { notIn: ['A', 'B'] },
+      price: [{ gt: 100 }, 5],
+    });
+  });
+
+  it('should parse orderBy from JSON and from the short form', () => {
+    const jsonReq = {
+      query: { orderBy: JSON.stringify([{ key: 'status', rule: 'asc' }, { key: 'customer.name', rule: 'desc', nulls: 'last' }]) },
+    } as unknown as Request;
+    const shortReq = {
+      query: { orderBy: 'status,-customer.name:last' },
+    } as unknown as Request;
+
+    const expectedOrderBy = [
+      { key: 'status', rule: 'asc' },
+      { key: 'customer.name', rule: 'desc', nulls: 'last' },
+    ];
+
+    expect(checkFilteringQueryV2(jsonReq).orderBy).toEqual(expectedOrderBy);
+    expect(checkFilteringQueryV2(shortReq).orderBy).toEqual(expectedOrderBy);
+  });
+
+  it('should throw every invalid param instead of leaving it out', () => {
+    const req = {
+      query: { rows: '500', page: '0', filters: '{' },
+    } as unknown as Request;
+
+    expect(() => checkFilteringQueryV2(req)).toThrow(FilteringQueryError);
+    expect(() => checkFilteringQueryV2(req)).toThrow(expect.objectContaining({
+      errors: [
+        { field: 'filters', message: 'filters is not valid JSON' },
+        { field: 'rows', message: 'rows must be less than or equal to 100' },
+        { field: 'page', message: 'page must be a positive integer' },
+      ],
+    }));
+  });
+
   it('should correctly handle missing query parameters', () => {
     const req: Request = {
       query: {},
@@ -41,4 +97,170 @@ describe('checkFilteringQueryV2', () => {
 
     expect(result).toEqual(expectedFilter);
   });
-});
\ No newline at end of file
+});
+
+describe('checkFilteringPolicyV2', () => {
+  const policy: FilteringPolicyV2 = {
+    filterable: ['status', 'customer.city'],
+    searchable: ['name'],
+    rangeable: ['createdAt'],
+    sortable: ['createdAt'],
+    relations: ['customer'],
+  };
+
+  it('should return no errors when every key is allowed', () => {
+    const result = checkFilteringPolicyV2({
+      filters: { status: 'PAID', 'customer.city': 'Jakarta' },
+      searchFilters: { name: 'phone' },
+      rangedFilters: [{ key: 'createdAt', start: '2024-01-01', end: '2024-01-31' }],
+      orderKey: 'createdAt',
+      orderRule: 'desc',
+    }, policy);
+
+    expect(result).toEqual([]);
+  });
+
+  it('should list every disallowed key', () => {
+    const result = checkFilteringPolicyV2({
+      filters: { status: 'PAID', password: 'secret' },
+      searchFilters: { 'customer.password': 'a' },
+      rangedFilters: [{ key: 'price', start: 1, end: 2 }],
+      orderKey: 'password',
+    }, policy);
+
+    expect(result).toEqual([
+      { field: 'filters.password', message: 'password is not allowed as a filter' },
+      { field: 'searchFilters.customer.password', message: 'customer.password is not allowed as a search filter' },
+      { field: 'rangedFilters.price', message: 'price is not allowed as a ranged filter' },
+      { field: 'orderKey', message: 'password is not allowed as an order key' },
+    ]);
+  });
+
+  it('should reject relational keys when the relation is not traversable', () => {
+    const result = checkFilteringPolicyV2({
+      filters: { 'customer.city': 'Jakarta' },
+    }, { ...policy, relations: [] });
+
+    expect(result).toEqual([
+      { field: 'filters.customer.city', message: 'customer.city is not allowed as a filter' },
+    ]);
+  });
+
+  it('should match quantified to-many keys against the policy', () => {
+    const result = checkFilteringPolicyV2({
+      filters: { 'tags.every.name': 'Promo', 'tags.none.secret': 'x' },
+    }, { filterable: ['tags.name'], relations: ['tags'], toManyRelations: ['tags'] });
+
+    expect(result).toEqual([
+      { field: 'filters.tags.none.secret', message: 'tags.none.secret is not allowed as a filter' },
+    ]);
+  });
+
+  it('should reject cursors that do not match the requested order', () => {
+    const cursor = encodeCursor({ id: '1', createdAt: new Date() }, [{ key: 'createdAt', rule: 'asc' }, { key: 'id', rule: 'asc' }]);
+
+    expect(checkFilteringPolicyV2({ cursor, orderKey: 'createdAt' }, policy)).toEqual([]);
+    expect(checkFilteringPolicyV2({ cursor }, policy)).toEqual([
+      { field: 'cursor', message: 'cursor is not valid for the requested order' },
+    ]);
+  });
+
+  it('should reject cursors on nullable sort keys', () => {
+    const nullablePolicy = { ...policy, sortable: ['createdAt', 'paidAt'], nullable: ['paidAt'] };
+    const cursor = encodeCursor({ id: '1', paidAt: null }, [{ key: 'paidAt', rule: 'asc' }, { key: 'id', rule: 'asc' }]);
+
+    expect(checkFilteringPolicyV2({ cursor, orderKey: 'paidAt' }, nullablePolicy)).toEqual([
+      { field: 'orderBy', message: "paidAt can be null, it can't be used with a cursor" },
+    ]);
+    expect(checkFilteringPolicyV2({ orderKey: 'paidAt' }, nullablePolicy)).toEqual([]);
+  });
+
+  it('should check every sort spec', () => {
+    const result = checkFilteringPolicyV2({
+      orderBy: [
+        { key: 'createdAt', rule: 'desc' },
+        { key: 'customer.password' },
+      ],
+    }, { ...policy, sortable: ['createdAt', 'customer.name'] });
+
+    expect(result).toEqual([
+      { field: 'orderBy[1].key', message: 'customer.password is not allowed as an order key' },
+    ]);
+  });
+});
+
+describe('parseFilteringQueryV2', () => {
+  const requestWithQuery = (query: Record<string, any>) => ({ query } as unknown as Request);
+
+  it('should report malformed JSON instead of throwing', () => {
+    const result = parseFilteringQueryV2(requestWithQuery({
+      filters: '{"status":',
+      searchFilters: 'name',
+      rangedFilters: '[{"key":',
+      orderBy: '[{"key"',
+    }));
+
+    expect(result.filter).toEqual({});
+    expect(result.errors).toEqual([
+      { field: 'orderBy', message: 'orderBy is not valid JSON' },
+      { field: 'filters', message: 'filters is not valid JSON' },
+      { field: 'searchFilters', message: 'searchFilters is not valid JSON' },
+      { field: 'rangedFilters', message: 'rangedFilters is not valid JSON' },
+    ]);
+  });
+
+  it('should enforce bounds on rows and page', () => {
+    const result = parseFilteringQueryV2(requestWithQuery({ rows: '1000000', page: '-3' }));
+
+    expect(result.filter).toEqual({});
+    expect(result.errors).toEqual([
+      { field: 'rows', message: 'rows must be less than or equal to 100' },
+      { field: 'page', message: 'page must be a positive integer' },
+    ]);
+    expect(parseFilteringQueryV2(requestWithQuery({ rows: '500' }), { maxRows: 500 }).filter).toEqual({ rows: 500 });
+  });
+
+  it('should report invalid shapes and values', () => {
+    const result = parseFilteringQueryV2(requestWithQuery({
+      filters: '["PAID"]',
+      searchFilters: '{"name":{"contains":"a"}}',
+      rangedFilters: '[{"start":1,"end":2}]',
+      orderRule: 'random',
+      orderBy: '[{"key":"name","rule":"up","nulls":"middle"}]',
+      cursorDirection: 'backwards',
+      rows: ['10', '20'],
+    }));
+
+    expect(result.errors).toEqual([
+      { field: 'orderRule', message: 'orderRule must be one of asc, desc' },
+      { field: 'orderBy[0].rule', message: 'rule must be one of asc, desc' },
+      { field: 'orderBy[0].nulls', message: 'nulls must be one of first, last' },
+      { field: 'filters', message: 'filters must be an object' },
+      { field: 'searchFilters.name', message: 'name must be a single value' },
+      { field: 'rangedFilters[0].key', message: 'key cannot be empty' },
+      { field: 'rows', message: 'rows must be a single value' },
+      { field: 'cursorDirection', message: 'cursorDirection must be one of next, previous' },
+    ]);
+  });
+
+  it('should accept bracket notation', () => {
+    // What express (qs) produces for :
+    // filters[status][]=PAID&filters[price][gt]=100&searchFilters[name]=phone
+    // &rangedFilters[0][key]=price&rangedFilters[0][start]=10&rangedFilters[0][end]=20
+    // &orderBy[0][key]=name&orderBy[0][rule]=desc
+    const result = parseFilteringQueryV2(requestWithQuery({
+      filters: { status: ['PAID'], price: { gt: '100' } },
+      searchFilters: { name: 'phone' },
+      rangedFilters: [{ key: 'price', start: '10', end: '20' }],
+      orderBy: [{ key: 'name', rule: 'desc' }],
+    }));
+
+    expect(result.errors).toEqual([]);
+    expect(result.filter).toEqual({
+      filters: { status: ['PAID'], price: { gt: 100 } },
+      searchFilters: { name: 'phone' },
+      rangedFilters: [{ key: 'price', start: 10, end: 20 }],
+      orderBy: [{ key: 'name', rule: 'desc' }],
+    });
+  });
+});
@@ -1,4 +1,6 @@
-import { ClauseFilters, FilteringQuery, FilteringQueryV2, RangedFilter } from "$entities/Query";
+import { ClauseFilters, CursorDirection, FilteringPolicyV2, FilteringQuery, FilteringQueryV2, OperatorFilter, OrderSpec, RangedFilter } from "$entities/Query";
+import { buildCursorSortSpecs, decodeCursor, getCursorSortErrors, isCursorMatchingSort, isOperatorFilter, stripRelationQuantifiers } from "$services/helpers/FilterQueryV2";
+import { ErrorStructure, generateErrorStructure } from "$validations/helper";
 import { Request } from "express";
 
 export function checkFilteringQuery(req: Request): FilteringQuery {
@@ -73,44 +75,332 @@ Please use V2 :)
 
 */
 
-export function checkFilteringQueryV2(req: Request): FilteringQueryV2 {
+export const DEFAULT_MAX_ROWS = 100;
 
-  let filter: FilteringQueryV2 = {};
+export interface ParseFilteringQueryOptions {
+  // biggest page size a client may ask for, defaults to DEFAULT_MAX_ROWS
+  maxRows?: number;
+}
 
-  if (req.query.orderKey) {
-    filter.orderKey = req.query.orderKey.toString()
+export interface ParsedFilteringQueryV2 {
+  filter: FilteringQueryV2;
+  errors: ErrorStructure[];
+}
+
+type QueryValue = Request["query"][string];
+
+const COMPARISON_OPERATORS = ["gt", "gte", "lt", "lte"];
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Bracket notation only carries strings, so numbers used in comparisons / ranges are converted back
+function coerceNumericString(value: any): any {
+  return typeof value === "string" && value.trim() !== "" && !Number.isNaN(Number(value)) ? Number(value) : value;
+}
+
+function readString(value: QueryValue, field: string, errors: ErrorStructure[]): string | undefined {
+  if (value === undefined || value === "") return undefined;
+  if (typeof value !== "string") {
+    errors.push(generateErrorStructure(field, `${field} must be a single value`));
+    return undefined;
   }
-  if (req.query.orderRule) {
-    filter.orderRule=req.query.orderRule.toString()
+  return value;
+}
+
+function readPositiveInteger(value: QueryValue, field: string, errors: ErrorStructure[], max?: number): number | undefined {
+  const raw = readString(value, field, errors);
+  if (raw === undefined) return undefined;
+
+  const number = Number(raw);
+  if (!Number.isInteger(number) || number < 1) {
+    errors.push(generateErrorStructure(field, `${field} must be a positive integer`));
+    return undefined;
   }
-  if (req.query.filters) {
-    filter.filters = JSON.parse(req.query.filters.toString()) as  Record<string, any | any[] | null>
+  if (max !== undefined && number > max) {
+    errors.push(generateErrorStructure(field, `${field} must be less than or equal to ${max}`));
+    return undefined;
   }
+  return number;
+}
+
+/*
+  Structured params can be sent either as JSON (`filters={"status":["PAID"]}`)
+  or with bracket notation (`filters[status][]=PAID`), which express already parses into an object
+*/
+function readStructured(value: QueryValue, field: string, errors: ErrorStructure[]): { value?: any; isBracket: boolean } {
+  if (value === undefined || value === "") return { isBracket: false };
 
-  if (req.query.searchFilters) {
-    filter.searchFilters= JSON.parse(req.query.searchFilters.toString()) as  Record<string, any | any[] | null>
+  if (typeof value === "string") {
+    try {
+      return { value: JSON.parse(value), isBracket: false };
+    } catch (err) {
+      errors.push(generateErrorStructure(field, `${field} is not valid JSON`));
+      return { isBracket: false };
+    }
   }
 
-  if (req.query.rangedFilters) {
-    filter.rangedFilters= JSON.parse(req.query.rangedFilters.toString()) as RangedFilter[]
+  return { value, isBracket: true };
+}
+
+// Normalize operator values coming from the query string, e.g. { isNull: "true" } or { in: "PAID" }
+function parseOperatorFilter(operatorFilter: OperatorFilter, isBracket: boolean): OperatorFilter {
+  const parsed: OperatorFilter = { ...operatorFilter };
+
+  if (typeof parsed.isNull === "string") parsed.isNull = parsed.isNull === "true";
+  if (parsed.in !== undefined && !Array.isArray(parsed.in)) parsed.in = [parsed.in];
+  if (parsed.notIn !== undefined && !Array.isArray(parsed.notIn)) parsed.notIn = [parsed.notIn];
+
+  if (isBracket) {
+    COMPARISON_OPERATORS.forEach((operator) => {
+      const key = operator as keyof OperatorFilter;
+      if (parsed[key] !== undefined) parsed[key] = coerceNumericString(parsed[key]);
+    });
   }
-  
-  if (req.query.rows) {
-    filter = {
-      ...filter,
-      // page: Number(req.query.page),
-      rows: Number(req.query.rows),
+
+  return parsed;
+}
+
+function parseFilters(filters: Record<string, any | any[] | null>, isBracket = false): Record<string, any | any[] | null> {
+  const parsed: Record<string, any | any[] | null> = {};
+
+  for (const key in filters) {
+    const value = filters[key];
+    if (Array.isArray(value)) {
+      parsed[key] = value.map((item) => (isOperatorFilter(item) ? parseOperatorFilter(item, isBracket) : item));
+    } else {
+      parsed[key] = isOperatorFilter(value) ? parseOperatorFilter(value, isBracket) : value;
+    }
+  }
+
+  return parsed;
+}
+
+/*
+  `orderBy` is either a JSON array of OrderSpec, or the short form `status,-createdAt:last`
+  where `-` means descending and `:first` / `:last` places the nulls
+*/
+function parseOrderBy(orderBy: string): OrderSpec[] {
+  if (orderBy.trim().startsWith("[")) return JSON.parse(orderBy) as OrderSpec[];
+
+  return orderBy
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0)
+    .map((item) => {
+      const [column, nulls] = item.split(":");
+      const spec: OrderSpec = column.startsWith("-") ? { key: column.substring(1), rule: "desc" } : { key: column, rule: "asc" };
+      if (nulls) spec.nulls = nulls as OrderSpec["nulls"];
+      return spec;
+    });
+}
+
+function readOrderBy(value: QueryValue, errors: ErrorStructure[]): OrderSpec[] | undefined {
+  if (value === undefined || value === "") return undefined;
+
+  let orderBy: any;
+  if (typeof value === "string") {
+    try {
+      orderBy = parseOrderBy(value);
+    } catch (err) {
+      errors.push(generateErrorStructure("orderBy", "orderBy is not valid JSON"));
+      return undefined;
+    }
+  } else {
+    // orderBy[0][key]=name&orderBy[0][rule]=desc
+    orderBy = Array.isArray(value) ? value : Object.values(value);
+  }
+
+  if (!Array.isArray(orderBy)) {
+    errors.push(generateErrorStructure("orderBy", "orderBy must be a list"));
+    return undefined;
+  }
+
+  orderBy.forEach((spec: any, index: number) => {
+    if (!isPlainObject(spec) || typeof spec.key !== "string" || spec.key === "") {
+      errors.push(generateErrorStructure(`orderBy[${index}].key`, "key cannot be empty"));
+      return;
+    }
+    if (spec.rule !== undefined && !["asc", "desc"].includes(spec.rule)) {
+      errors.push(generateErrorStructure(`orderBy[${index}].rule`, "rule must be one of asc, desc"));
+    }
+    if (spec.nulls !== undefined && !["first", "last"].includes(spec.nulls)) {
+      errors.push(generateErrorStructure(`orderBy[${index}].nulls`, "nulls must be one of first, last"));
+    }
+  });
+
+  return orderBy as OrderSpec[];
+}
+
+function readRangedFilters(value: QueryValue, errors: ErrorStructure[]): RangedFilter[] | undefined {
+  const structured = readStructured(value, "rangedFilters", errors);
+  if (structured.value === undefined) return undefined;
+
+  // qs turns indexes above its array limit into an object, e.g. { "25": {...} }
+  const rangedFilters = structured.isBracket && isPlainObject(structured.value) ? Object.values(structured.value) : structured.value;
+
+  if (!Array.isArray(rangedFilters)) {
+    errors.push(generateErrorStructure("rangedFilters", "rangedFilters must be a list"));
+    return undefined;
+  }
+
+  return rangedFilters.map((range: any, index: number) => {
+    if (!isPlainObject(range) || typeof range.key !== "string" || range.key === "") {
+      errors.push(generateErrorStructure(`rangedFilters[${index}].key`, "key cannot be empty"));
+      return range;
+    }
+    if (!structured.isBracket) return range;
+
+    return {
+      ...range,
+      start: coerceNumericString(range.start),
+      end: coerceNumericString(range.end),
     };
+  });
+}
+
+/**
+ * Parse the filtering query of a list endpoint, never throws
+ * @param req     - request object passed by express
+ * @param options - parsing options, e.g. the maximum page size
+ * @returns the parsed filter, and one ErrorStructure per invalid param (respond 400 when not empty)
+ */
+export function parseFilteringQueryV2(req: Request, options: ParseFilteringQueryOptions = {}): ParsedFilteringQueryV2 {
+  const maxRows = options.maxRows ?? DEFAULT_MAX_ROWS;
+  const query = req.query ?? {};
+  const errors: ErrorStructure[] = [];
+  const filter: FilteringQueryV2 = {};
+
+  const orderKey = readString(query.orderKey, "orderKey", errors);
+  if (orderKey !== undefined) filter.orderKey = orderKey;
+
+  const orderRule = readString(query.orderRule, "orderRule", errors);
+  if (orderRule !== undefined) {
+    filter.orderRule = orderRule;
+    if (!["asc", "desc"].includes(orderRule)) errors.push(generateErrorStructure("orderRule", "orderRule must be one of asc, desc"));
   }
 
-  if (req.query.page){
-    filter={
-        ...filter,
-        page: Number(req.query.page)
+  const orderBy = readOrderBy(query.orderBy, errors);
+  if (orderBy !== undefined) filter.orderBy = orderBy;
+
+  const filters = readStructured(query.filters, "filters", errors);
+  if (filters.value !== undefined) {
+    if (isPlainObject(filters.value)) filter.filters = parseFilters(filters.value, filters.isBracket);
+    else errors.push(generateErrorStructure("filters", "filters must be an object"));
+  }
+
+  const searchFilters = readStructured(query.searchFilters, "searchFilters", errors);
+  if (searchFilters.value !== undefined) {
+    if (isPlainObject(searchFilters.value)) {
+      filter.searchFilters = searchFilters.value;
+      for (const key in searchFilters.value) {
+        const value = searchFilters.value[key];
+        if (value !== null && typeof value === "object") errors.push(generateErrorStructure(`searchFilters.${key}`, `${key} must be a single value`));
+      }
+    } else {
+      errors.push(generateErrorStructure("searchFilters", "searchFilters must be an object"));
     }
   }
 
+  const rangedFilters = readRangedFilters(query.rangedFilters, errors);
+  if (rangedFilters !== undefined) filter.rangedFilters = rangedFilters;
+
+  const rows = readPositiveInteger(query.rows, "rows", errors, maxRows);
+  if (rows !== undefined) filter.rows = rows;
+
+  const page = readPositiveInteger(query.page, "page", errors);
+  if (page !== undefined) filter.page = page;
+
+  const cursor = readString(query.cursor, "cursor", errors);
+  if (cursor !== undefined) filter.cursor = cursor;
+
+  const cursorDirection = readString(query.cursorDirection, "cursorDirection", errors);
+  if (cursorDirection !== undefined) {
+    if (["next", "previous"].includes(cursorDirection)) filter.cursorDirection = cursorDirection as CursorDirection;
+    else errors.push(generateErrorStructure("cursorDirection", "cursorDirection must be one of next, previous"));
+  }
+
+  return { filter, errors };
+}
+
+// Thrown by checkFilteringQueryV2, errorMiddleware answers it with a 400 listing `errors`
+export class FilteringQueryError extends Error {
+  constructor(readonly errors: ErrorStructure[]) {
+    super("Invalid filtering query");
+    this.name = "FilteringQueryError";
+  }
+}
+
+/**
+ * Parse the filtering query of a list endpoint
+ * @param req - request object passed by express
+ * @throws FilteringQueryError listing every invalid param
+ */
+export function checkFilteringQueryV2(req: Request): FilteringQueryV2 {
+  const { filter, errors } = parseFilteringQueryV2(req);
+  if (errors.length !== 0) throw new FilteringQueryError(errors);
 
   return filter;
 }
 
+function findDisallowedKeys(keys: string[], allowedKeys: string[] = [], allowedRelations: string[] = []): string[] {
+  return keys.filter((requestedKey) => {
+    // `tags.every.name` is allowed when `tags.name` is
+    const key = stripRelationQuantifiers(requestedKey);
+    if (!allowedKeys.includes(key)) return true;
+
+    // every relation on the path has to be traversable, e.g. `order.customer.city` needs `order` and `order.customer`
+    const path = key.split(".");
+    for (let i = 1; i < path.length; i++) {
+      if (!allowedRelations.includes(path.slice(0, i).join("."))) return true;
+    }
+
+    return false;
+  });
+}
+
+export function checkFilteringPolicyV2(filter: FilteringQueryV2, policy: FilteringPolicyV2): ErrorStructure[] {
+  const errors: ErrorStructure[] = [];
+
+  if (filter.filters) {
+    findDisallowedKeys(Object.keys(filter.filters), policy.filterable, policy.relations).forEach((key) => {
+      errors.push(generateErrorStructure(`filters.${key}`, `${key} is not allowed as a filter`));
+    });
+  }
+
+  if (filter.searchFilters) {
+    findDisallowedKeys(Object.keys(filter.searchFilters), policy.searchable, policy.relations).forEach((key) => {
+      errors.push(generateErrorStructure(`searchFilters.${key}`, `${key} is not allowed as a search filter`));
+    });
+  }
+
+  if (filter.rangedFilters) {
+    const rangedKeys = filter.rangedFilters.map((range) => `${range.key}`);
+    findDisallowedKeys(rangedKeys, policy.rangeable, policy.relations).forEach((key) => {
+      errors.push(generateErrorStructure(`rangedFilters.${key}`, `${key} is not allowed as a ranged filter`));
+    });
+  }
+
+  if (filter.orderBy) {
+    filter.orderBy.forEach((spec, index) => {
+      if (findDisallowedKeys([`${spec.key}`], policy.sortable, policy.relations).length > 0) {
+        errors.push(generateErrorStructure(`orderBy[${index}].key`, `${spec.key} is not allowed as an order key`));
+      }
+    });
+  } else if (filter.orderKey) {
+    findDisallowedKeys([filter.orderKey], policy.sortable, policy.relations).forEach((key) => {
+      errors.push(generateErrorStructure("orderKey", `${key} is not allowed as an order key`));
+    });
+  }
+
+  if (filter.cursor) {
+    const cursor = decodeCursor(filter.cursor);
+    if (!cursor || !isCursorMatchingSort(cursor, buildCursorSortSpecs(filter, policy))) {
+      errors.push(generateErrorStructure("cursor", "cursor is not valid for the requested order"));
+    }
+    errors.push(...getCursorSortErrors(filter, policy));
+  }
+
+  return errors;
+}
@@ -0,0 +1,34 @@
+import { FilteringQueryV2 } from "$entities/Query";
+import { ServiceResponse } from "$entities/Service";
+import { handleServiceErrorWithResponse, response_bad_request, response_success } from "$utils/response.utils";
+import { Request, Response } from "express";
+import { ParseFilteringQueryOptions, parseFilteringQueryV2 } from "./CheckFilteringQuery";
+
+/**
+ * Call the list service with the filtering query and return the paged response,
+ * the query is only parsed here when no validateFilteringQueryV2 middleware parsed it before
+ * @param req         - request object passed by express
+ * @param res         - response object passed by express
+ * @param listService - service that returns a PagedList or a CursorPagedList, built with `findManyPaged` or `findManyCursorPaged`
+ * @param options     - parsing options, e.g. the maximum page size
+ * @returns response, 400 with every invalid query param when the query can't be parsed
+ */
+export async function handlePagedListResponse(
+  req: Request,
+  res: Response,
+  listService: (filter: FilteringQueryV2) => Promise<ServiceResponse<any>>,
+  options: ParseFilteringQueryOptions = {}
+): Promise<Response> {
+  let filter = res.locals.filteringQuery;
+  if (!filter) {
+    const parsed = parseFilteringQueryV2(req, options);
+    if (parsed.errors.length !== 0) return response_bad_request(res, "Invalid filtering query", parsed.errors);
+    filter = parsed.filter;
+  }
+
+  const serviceResponse = await listService(filter);
+
+  if (!serviceResponse.status) return handleServiceErrorWithResponse(res, serviceResponse);
+
+  return response_success(res, serviceResponse.data, "Success!");
+}
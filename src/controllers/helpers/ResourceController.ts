@@ -0,0 +1,73 @@
+import { ResourceContext } from "$entities/Resource";
+import { ResourceService } from "$services/helpers/ResourceService";
+import { handleServiceErrorWithResponse, response_created, response_success } from "$utils/response.utils";
+import { Request, Response } from "express";
+import { ParseFilteringQueryOptions } from "./CheckFilteringQuery";
+import { handlePagedListResponse } from "./PagedListResponse";
+
+export interface ResourceController {
+  getAll(req: Request, res: Response): Promise<Response>
+  getById(req: Request, res: Response): Promise<Response>
+  create(req: Request, res: Response): Promise<Response>
+  update(req: Request, res: Response): Promise<Response>
+  delete(req: Request, res: Response): Promise<Response>
+}
+
+function getContext(req: Request): ResourceContext {
+  return { user: req.user }
+}
+
+/**
+ * Build the controller of a resource, same responsibilities as a hand-written one :
+ * parse the request, call the service and return the `response_*` envelope
+ * @param service - service built with `createResourceService`
+ * @param name    - resource name used in the response messages
+ * @param options - parsing options of the list route, e.g. the maximum page size
+ */
+export function createResourceController<T, C, U>(service: ResourceService<T, C, U>, name: string, options: ParseFilteringQueryOptions = {}): ResourceController {
+  async function getAll(req: Request, res: Response): Promise<Response> {
+    return handlePagedListResponse(req, res, (filter) => service.getAll(filter, getContext(req)), options)
+  }
+
+  async function getById(req: Request, res: Response): Promise<Response> {
+    const serviceResponse = await service.getById(req.params.id, getContext(req))
+
+    if (!serviceResponse.status) return handleServiceErrorWithResponse(res, serviceResponse)
+
+    return response_success(res, serviceResponse.data, "Success!")
+  }
+
+  async function create(req: Request, res: Response): Promise<Response> {
+    const data: C = req.body
+    const serviceResponse = await service.create(data, getContext(req))
+
+    if (!serviceResponse.status) return handleServiceErrorWithResponse(res, serviceResponse)
+
+    return response_created(res, serviceResponse.data, `${name} successfully created!`)
+  }
+
+  async function update(req: Request, res: Response): Promise<Response> {
+    const data: U = req.body
+    const serviceResponse = await service.update(req.params.id, data, getContext(req))
+
+    if (!serviceResponse.status) return handleServiceErrorWithResponse(res, serviceResponse)
+
+    return response_success(res, serviceResponse.data, `${name} successfully updated!`)
+  }
+
+  async function deleteById(req: Request, res: Response): Promise<Response> {
+    const serviceResponse = await service.delete(req.params.id, getContext(req))
+
+    if (!serviceResponse.status) return handleServiceErrorWithResponse(res, serviceResponse)
+
+    return response_success(res, serviceResponse.data, `${name} successfully deleted!`)
+  }
+
+  return {
+    getAll,
+    getById,
+    create,
+    update,
+    delete: deleteById
+  }
+}
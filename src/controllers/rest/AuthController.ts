@@ -0,0 +1,57 @@
+import { Request, Response } from 'express';
+import * as AuthService from "$services/AuthService"
+import { UserLoginDTO, UserRefreshTokenDTO, UserRegisterDTO } from '$entities/User';
+import { handleServiceErrorWithResponse, response_created, response_success } from '$utils/response.utils';
+
+export async function register(req:Request, res:Response):Promise<Response>{
+    const data:UserRegisterDTO = req.body
+    const serviceResponse = await AuthService.register(data)
+
+    if(!serviceResponse.status) return handleServiceErrorWithResponse(res, serviceResponse)
+
+    return response_created(res, serviceResponse.data, "Successfully registered!")
+}
+
+export async function login(req:Request, res:Response):Promise<Response>{
+    const data:UserLoginDTO = req.body
+    const serviceResponse = await AuthService.login(data)
+
+    if(!serviceResponse.status) return handleServiceErrorWithResponse(res, serviceResponse)
+
+    return response_success(res, serviceResponse.data, "Successfully logged in!")
+}
+
+export async function me(req:Request, res:Response):Promise<Response>{
+    const serviceResponse = await AuthService.me(req.user!.id)
+
+    if(!serviceResponse.status) return handleServiceErrorWithResponse(res, serviceResponse)
+
+    return response_success(res, serviceResponse.data, "Success!")
+}
+
+
+export async function refresh(req:Request, res:Response):Promise<Response>{
+    const data:UserRefreshTokenDTO = req.body
+    const serviceResponse = await AuthService.refresh(data.refreshToken)
+
+    if(!serviceResponse.status) return handleServiceErrorWithResponse(res, serviceResponse)
+
+    return response_success(res, serviceResponse.data, "Successfully refreshed!")
+}
+
+export async function logout(req:Request, res:Response):Promise<Response>{
+    const data:UserRefreshTokenDTO = req.body
+    const serviceResponse = await AuthService.logout(data.refreshToken)
+
+    if(!serviceResponse.status) return handleServiceErrorWithResponse(res, serviceResponse)
+
+    return response_success(res, serviceResponse.data, "Successfully logged out!")
+}
+
+export async function logoutAllDevices(req:Request, res:Response):Promise<Response>{
+    const serviceResponse = await AuthService.logoutAllDevices(req.user!.id)
+
+    if(!serviceResponse.status) return handleServiceErrorWithResponse(res, serviceResponse)
+
+    return response_success(res, serviceResponse.data, "Successfully logged out from all devices!")
+}
\ No newline at end of file
@@ -0,0 +1,24 @@
+import { Request, Response } from 'express';
+import * as CronService from "$services/CronService"
+import { handlePagedListResponse } from '$controllers/helpers/PagedListResponse';
+import { handleServiceErrorWithResponse, response_accepted, response_success } from '$utils/response.utils';
+
+export async function getJobs(req:Request, res:Response):Promise<Response>{
+    const serviceResponse = await CronService.getJobs()
+
+    if(!serviceResponse.status) return handleServiceErrorWithResponse(res, serviceResponse)
+
+    return response_success(res, serviceResponse.data, "Success!")
+}
+
+export async function getRuns(req:Request, res:Response):Promise<Response>{
+    return handlePagedListResponse(req, res, CronService.getRuns)
+}
+
+export async function runNow(req:Request, res:Response):Promise<Response>{
+    const serviceResponse = await CronService.runJobNow(req.params.name, req.user!)
+
+    if(!serviceResponse.status) return handleServiceErrorWithResponse(res, serviceResponse)
+
+    return response_accepted(res, serviceResponse.data, "Job started, follow it in the run history")
+}
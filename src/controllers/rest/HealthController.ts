@@ -0,0 +1,25 @@
+import { Request, Response } from 'express';
+import { getReadiness } from '$utils/health.utils';
+import { response_service_unavailable, response_success } from '$utils/response.utils';
+
+// The process is up and its event loop answers, restart it otherwise. Dependencies are not checked here,
+// a database outage must not get every instance restarted
+export async function live(req:Request, res:Response):Promise<Response>{
+    return response_success(res, { status: "up", uptime: process.uptime() }, "Alive")
+}
+
+// Every registered dependency answers, stop sending traffic otherwise
+export async function ready(req:Request, res:Response):Promise<Response>{
+    const readiness = await getReadiness()
+
+    if(!readiness.ready){
+        const errors = Object.entries(readiness.checks)
+            .filter(([, result]) => result.status === "down")
+            .map(([name]) => ({ field: name, message: "down" }))
+        if(readiness.shuttingDown) errors.push({ field: "server", message: "Shutting down" })
+
+        return response_service_unavailable(res, "Not ready", errors, "NOT_READY")
+    }
+
+    return response_success(res, readiness, "Ready")
+}
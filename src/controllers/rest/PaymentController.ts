@@ -0,0 +1,11 @@
+import { Request, Response } from 'express';
+import * as PaymentService from "$services/PaymentService"
+import { handleServiceErrorWithResponse, response_success } from '$utils/response.utils';
+
+export async function midtransNotification(req:Request, res:Response):Promise<Response>{
+    const serviceResponse = await PaymentService.handleMidtransNotification(req.body)
+
+    if(!serviceResponse.status) return handleServiceErrorWithResponse(res, serviceResponse)
+
+    return response_success(res, serviceResponse.data, "Notification received")
+}
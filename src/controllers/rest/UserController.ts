@@ -0,0 +1,34 @@
+import { Request, Response } from 'express';
+import * as UserService from "$services/UserService"
+import { UserUpdateDTO } from '$entities/User';
+import { handlePagedListResponse } from '$controllers/helpers/PagedListResponse';
+import { handleServiceErrorWithResponse, response_success } from '$utils/response.utils';
+
+export async function getAll(req:Request, res:Response):Promise<Response>{
+    return handlePagedListResponse(req, res, UserService.getAll)
+}
+
+export async function getById(req:Request, res:Response):Promise<Response>{
+    const serviceResponse = await UserService.getById(req.params.id, req.user!)
+
+    if(!serviceResponse.status) return handleServiceErrorWithResponse(res, serviceResponse)
+
+    return response_success(res, serviceResponse.data, "Success!")
+}
+
+export async function update(req:Request, res:Response):Promise<Response>{
+    const data:UserUpdateDTO = req.body
+    const serviceResponse = await UserService.update(req.params.id, data, req.user!)
+
+    if(!serviceResponse.status) return handleServiceErrorWithResponse(res, serviceResponse)
+
+    return response_success(res, serviceResponse.data, "Successfully updated!")
+}
+
+export async function deleteUser(req:Request, res:Response):Promise<Response>{
+    const serviceResponse = await UserService.deleteUser(req.params.id)
+
+    if(!serviceResponse.status) return handleServiceErrorWithResponse(res, serviceResponse)
+
+    return response_success(res, serviceResponse.data, "Successfully deleted!")
+}
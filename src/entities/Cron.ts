@@ -0,0 +1,41 @@
+import { CronRun, CronRunTrigger } from "@prisma/client";
+
+export interface CronJobContext {
+  runId: string
+  trigger: CronRunTrigger
+  // Aborted when the run times out or is interrupted by a shutdown, long jobs should stop when it is
+  signal: AbortSignal
+}
+
+/*
+  A job of the cron app (`--service=cron`), register it in jobs/registry.ts :
+
+    const CleanupRefreshTokensJob: CronJob = {
+      name: "cleanup-refresh-tokens",
+      schedule: "0 3 * * *",
+      timeoutMs: 5 * 60 * 1000,
+      handler: async ({ signal }) => { ... },
+    }
+*/
+export interface CronJob {
+  // Unique, used as the lock key, in the run history and in the "run now" endpoint
+  name: string
+  description?: string
+  // Cron expression, e.g. "*/5 * * * *" every 5 minutes, "0 3 * * *" every day at 3:00
+  schedule: string
+  // Defaults to Asia/Jakarta
+  timezone?: string
+  // The run is marked TIMED_OUT and its signal aborted after it, defaults to 5 minutes.
+  // The lock is held until the handler settles, so a handler ignoring the signal still can't overlap the next run
+  timeoutMs?: number
+  handler: (context: CronJobContext) => Promise<void> | void
+}
+
+export interface CronJobDTO {
+  name: string
+  description?: string
+  schedule: string
+  timezone: string
+  timeoutMs: number
+  lastRun: CronRun | null
+}
@@ -0,0 +1,28 @@
+import { Schema, Validator } from "$validations/schema";
+
+/*
+  Documentation of one route, see `routeDoc` in routes/helpers/OpenApi.ts.
+  The rest of the operation is read from the route itself :
+    - request body / query / params from the `validate()` middleware
+    - FilteringQueryV2 query params and the PagedList envelope from `validateFilteringQueryV2`
+    - bearer auth from `authMiddleware`
+*/
+export interface RouteDoc {
+  summary: string
+  description?: string
+  // Defaults to the first segment of the path, e.g. `users`
+  tags?: string[]
+  // Schema of `content` in the success response (of each entry for paged lists)
+  response?: Schema<any> | Validator<any>
+  // Success status, defaults to 201 for POST and 200 otherwise
+  status?: number
+  // Overrides what is read from the route
+  auth?: boolean
+  paged?: boolean
+}
+
+export interface OpenApiInfo {
+  title: string
+  version: string
+  description?: string
+}
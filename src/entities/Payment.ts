@@ -0,0 +1,43 @@
+import { Payment, PaymentStatus } from "@prisma/client";
+import type { TransactionClient } from "$utils/prisma.utils";
+import { MidtransCustomerDetails, MidtransItemDetail, MidtransTransaction } from "$pkg/midtrans/interfaces";
+
+export interface CreatePaymentDTO {
+    // order_id sent to Midtrans, unique, e.g. the id or number of the paid order
+    orderId: string
+    amount: number
+    userId?: string
+    items?: MidtransItemDetail[]
+    customer?: MidtransCustomerDetails
+    // The Snap page expires after it, defaults to the setting of the Midtrans dashboard
+    expiryMinutes?: number
+}
+
+export interface RefundPaymentDTO {
+    // Full refund when not set
+    amount?: number
+    reason?: string
+}
+
+// Body of the HTTP notification of Midtrans
+export type MidtransNotificationDTO = MidtransTransaction & { signature_key: string }
+
+/*
+  updated   -> the notification moved the payment to a new status
+  unchanged -> same status, e.g. `capture` then `settlement` of a card payment
+  ignored   -> move not allowed, e.g. `pending` received after `settlement`
+  duplicate -> notification already received, nothing done
+*/
+export type PaymentNotificationOutcome = "updated" | "unchanged" | "ignored" | "duplicate"
+
+export interface PaymentNotificationResultDTO {
+    orderId: string
+    status: PaymentStatus
+    outcome: PaymentNotificationOutcome
+}
+
+/*
+  Called in the transaction that changes the status of a payment, e.g. to mark the paid order,
+  throwing rolls the change back and Midtrans sends the notification again later
+*/
+export type PaymentStatusListener = (payment: Payment, previousStatus: PaymentStatus, tx: TransactionClient) => Promise<void> | void
@@ -39,10 +39,62 @@ export interface RangedFilter{
   end:any 
 }
 
+/*
+  Operators that can be used as a filter value instead of a plain value, e.g. :
+
+  {
+    "status" : { "not" : "CANCELLED" },
+    "price" : { "gt" : 100, "lte" : 500 },
+    "deletedAt" : { "isNull" : true },
+    "name" : { "startsWith" : "Jo" },
+    "category" : { "in" : ["Food", "Drink"] }
+  }
+*/
+export const FILTER_OPERATORS = [
+  "equals",
+  "not",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "in",
+  "notIn",
+  "isNull",
+  "contains",
+  "startsWith",
+  "endsWith",
+] as const
+
+export type FilterOperator = typeof FILTER_OPERATORS[number]
+
+export type OperatorFilter = Partial<Record<FilterOperator, any>>
+
+export type CursorDirection = "next" | "previous"
+
+/*
+  One sort column, the client sends an ordered list of them as `orderBy`, e.g. :
+
+  [
+    { "key" : "status", "rule" : "asc" },
+    { "key" : "customer.name", "rule" : "desc", "nulls" : "last" },
+    { "key" : "items._count", "rule" : "desc" }
+  ]
+
+  or the short form `orderBy=status,-customer.name:last,-items._count`
+*/
+export interface OrderSpec {
+  key: string
+  rule?: "asc" | "desc"
+  nulls?: "first" | "last"
+}
+
 export interface FilteringQueryV2 {
   page?: number;
   rows?: number;
   cursor?: string;
+  cursorDirection?: CursorDirection;
+  orderBy?: OrderSpec[];
+  // single column sort, still supported, `orderBy` takes precedence
   orderKey?: string;
   orderRule?: string;
   filters?: Record<string, any | any[] | null>;
@@ -50,6 +102,49 @@ export interface FilteringQueryV2 {
   rangedFilters?: RangedFilter[]
 }
 
+// Filtering query parsed by validateFilteringQueryV2, so the controller doesn't parse it again
+declare global {
+  namespace Express {
+    interface Locals {
+      filteringQuery?: FilteringQueryV2
+    }
+  }
+}
+
+
+/*
+  Allow-list of what the client may send in a FilteringQueryV2 for one resource.
+  A list that is not declared means nothing is allowed for that part,
+  relational keys (e.g. `customer.name`) also need their relation path declared in `relations`.
+  To-many relations (e.g. `tags`) are declared in `toManyRelations` too, so filters on them
+  default to `some` when the client doesn't send `tags.some.name` / `tags.every.name` / `tags.none.name`.
+
+  usage is like :
+
+  export const ProductFilteringPolicy: FilteringPolicyV2 = {
+    filterable: ["category", "customer.city"],
+    searchable: ["name"],
+    rangeable: ["price", "createdAt"],
+    sortable: ["name", "createdAt"],
+    relations: ["customer", "tags"],
+    toManyRelations: ["tags"]
+  }
+*/
+export interface FilteringPolicyV2 {
+  filterable?: string[]
+  searchable?: string[]
+  rangeable?: string[]
+  sortable?: string[]
+  relations?: string[]
+  toManyRelations?: string[]
+  // date columns, their date strings in operator filters (e.g. { "gte" : "2024-01-01" }) are sent to prisma as Date
+  dates?: string[]
+  // unique column appended to the sort so paging is stable, cursor paging falls back to `id` when not declared
+  tiebreaker?: string
+  // nullable columns, they can be sorted on with page / rows but not paged with a cursor
+  nullable?: string[]
+}
+
 
 /*
   As part of the dynamic filtering + pagination 
@@ -58,11 +153,34 @@ export interface FilteringQueryV2 {
 
   usage is like :
 
-  Promise<ServiceResponse<PagedList<User>>>
+  Promise<ServiceResponse<PagedList<User[]>>>
+
+  see `findManyPaged` in services/helpers/PagedQuery.ts to build it from a FilteringQueryV2
 
 */
 export interface PagedList<T>{
   entries: T
   totalData: number 
   totalPage : number
+  page: number
+  rows: number
+  hasNext: boolean
+}
+
+
+// Prisma refuses `select` and `include` together, relations can be selected inside `select`
+export type QueryProjection =
+  | { select?: Record<string, any>; include?: never }
+  | { include?: Record<string, any>; select?: never }
+
+
+/*
+  Result of cursor based pagination, `nextCursor` and `prevCursor` are opaque strings
+  that the client sends back as `cursor` (with `cursorDirection=previous` for the previous page),
+  they are null when there is no page in that direction.
+*/
+export interface CursorPagedList<T>{
+  entries: T
+  nextCursor: string | null
+  prevCursor: string | null
 }
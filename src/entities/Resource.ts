@@ -0,0 +1,80 @@
+import { FilteringPolicyV2, QueryProjection } from "$entities/Query";
+import { ServiceResponse } from "$entities/Service";
+import { UserJWTDAO } from "$entities/User";
+import { Permission } from "$utils/permission.utils";
+import { Schema } from "$validations/schema";
+import { Prisma, Roles } from "@prisma/client";
+
+export type ResourceAction = "list" | "get" | "create" | "update" | "delete"
+
+/*
+  Who may call an action of a resource :
+    "public" -> no authentication
+    {} -> any authenticated user
+    { roles : ["ADMIN"] } -> authenticated user with one of the roles
+    { permissions : ["product:delete"] } -> authenticated user whose role has every permission
+    false -> the route is not registered
+*/
+export type ResourceAccessRule = "public" | false | {
+  roles?: Roles[]
+  permissions?: Permission[]
+}
+
+export interface ResourceContext {
+  // Undefined on public routes
+  user?: UserJWTDAO
+}
+
+/*
+  Hooks around the generated service, `before*` hooks return a ServiceResponse :
+  a failed one aborts the action with its error, a successful one continues with its `data`
+  (so `beforeCreate` / `beforeUpdate` can also transform the payload, e.g. hash a password or set the owner).
+*/
+export interface ResourceHooks<T, C, U> {
+  // Extra where applied to list, get, update and delete, e.g. to only expose the user's own rows
+  scope?: (context: ResourceContext) => Record<string, any> | undefined
+  beforeCreate?: (data: C, context: ResourceContext) => Promise<ServiceResponse<any>> | ServiceResponse<any>
+  afterCreate?: (record: T, context: ResourceContext) => Promise<void> | void
+  beforeUpdate?: (id: string, data: U, context: ResourceContext) => Promise<ServiceResponse<any>> | ServiceResponse<any>
+  afterUpdate?: (record: T, context: ResourceContext) => Promise<void> | void
+  beforeDelete?: (id: string, context: ResourceContext) => Promise<ServiceResponse<any>> | ServiceResponse<any>
+  afterDelete?: (record: T, context: ResourceContext) => Promise<void> | void
+}
+
+/*
+  Declarative CRUD resource for a prisma model, see `buildResourceRoutes` in routes/helpers/ResourceRoutes.ts
+
+  usage is like :
+
+  const ProductRoutes = buildResourceRoutes<Product, ProductCreateDTO, ProductUpdateDTO>({
+    model: "Product",
+    policy: ProductFilteringPolicy,
+    createSchema: ProductCreateSchema,
+    updateSchema: ProductUpdateSchema,
+    access: {
+      list: "public",
+      get: "public",
+      create: { permissions: ["product:create"] },
+      update: { permissions: ["product:update"] },
+      delete: { roles: ["ADMIN"] },
+    },
+  })
+*/
+export type ResourceConfig<T, C = Partial<T>, U = Partial<T>> = QueryProjection & {
+  model: Prisma.ModelName
+  // Used in the response messages, defaults to the model name
+  name?: string
+  // Unique column used by the detail, update and delete routes, defaults to `id`, the route param is converted to its type
+  idField?: string
+  // Allowed filter / search / range / sort keys of the list route
+  policy?: FilteringPolicyV2
+  maxRows?: number
+  // Without a schema the create / update route is not registered
+  createSchema?: Schema<C>
+  updateSchema?: Schema<U>
+  // Documents the entries returned by the routes, see `routeDoc`
+  responseSchema?: Schema<T>
+  // Actions without a rule require an authenticated user
+  access?: Partial<Record<ResourceAction, ResourceAccessRule>>
+  hooks?: ResourceHooks<T, C, U>
+}
@@ -1,39 +1,87 @@
+import { ErrorStructure } from "$validations/helper";
+
 export interface ServiceResponse<T> {
   data?: T;
   err?: ServiceError;
   status: boolean;
 }
 
-interface ServiceError {
-  message: string;
-  code: number;
-}
+/*
+  Every kind of service error with its HTTP status, the response layer maps each one
+  to its `response_*` helper (see `handleServiceErrorWithResponse` in utils/response.utils.ts)
+*/
+export const SERVICE_ERROR_STATUS = {
+  BAD_REQUEST: 400,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  VALIDATION_ERROR: 422,
+  RATE_LIMITED: 429,
+  INTERNAL_SERVER_ERROR: 500,
+} as const;
 
-export const INTERNAL_SERVER_ERROR_SERVICE_RESPONSE: ServiceResponse<{}> = {
-  status: false,
-  data: {},
-  err: {
-    message: "Internal Server Error",
-    code: 500
-  }
-}
+export type ServiceErrorType = keyof typeof SERVICE_ERROR_STATUS;
 
-export const INVALID_ID_SERVICE_RESPONSE: ServiceResponse<{}> = {
-  status: false,
-  data: {},
-  err: {
-    message: "Invalid ID, Data not Found",
-    code: 404
-  }
+export interface ServiceError {
+  message: string;
+  // HTTP status
+  code: number;
+  /*
+    Stable machine-readable code sent to the client as `errorCode`, e.g. to show a translated message.
+    Defaults to the error type (e.g. `NOT_FOUND`), pass a specific one when the client has to tell
+    errors of the same type apart, e.g. `EMAIL_ALREADY_REGISTERED`
+  */
+  errorCode: string;
+  // Field errors, mostly for VALIDATION_ERROR, also set on CONFLICT / BAD_REQUEST translated from prisma errors
+  errors?: ErrorStructure[];
 }
 
-export function BadRequestWithMessage(message: string): ServiceResponse<{}> {
+function serviceError(type: ServiceErrorType, message: string, errorCode: string = type, errors?: ErrorStructure[]): ServiceResponse<{}> {
   return {
     status: false,
     data: {},
     err: {
       message,
-      code: 404
+      code: SERVICE_ERROR_STATUS[type],
+      errorCode,
+      ...(errors ? { errors } : {})
     }
   }
-}
\ No newline at end of file
+}
+
+export const INTERNAL_SERVER_ERROR_SERVICE_RESPONSE: ServiceResponse<{}> = serviceError("INTERNAL_SERVER_ERROR", "Internal Server Error")
+
+export const INVALID_ID_SERVICE_RESPONSE: ServiceResponse<{}> = serviceError("NOT_FOUND", "Invalid ID, Data not Found")
+
+export function BadRequestWithMessage(message: string, errorCode?: string, errors?: ErrorStructure[]): ServiceResponse<{}> {
+  return serviceError("BAD_REQUEST", message, errorCode, errors)
+}
+
+export function UnauthorizedWithMessage(message: string, errorCode?: string): ServiceResponse<{}> {
+  return serviceError("UNAUTHORIZED", message, errorCode)
+}
+
+export function ForbiddenWithMessage(message: string, errorCode?: string): ServiceResponse<{}> {
+  return serviceError("FORBIDDEN", message, errorCode)
+}
+
+export function NotFoundWithMessage(message: string, errorCode?: string): ServiceResponse<{}> {
+  return serviceError("NOT_FOUND", message, errorCode)
+}
+
+export function ConflictWithMessage(message: string, errorCode?: string, errors?: ErrorStructure[]): ServiceResponse<{}> {
+  return serviceError("CONFLICT", message, errorCode, errors)
+}
+
+export function ValidationErrorWithMessage(message: string, errors: ErrorStructure[], errorCode?: string): ServiceResponse<{}> {
+  return serviceError("VALIDATION_ERROR", message, errorCode, errors)
+}
+
+export function RateLimitedWithMessage(message: string, errorCode?: string): ServiceResponse<{}> {
+  return serviceError("RATE_LIMITED", message, errorCode)
+}
+
+export function InternalServerErrorWithMessage(message: string, errorCode?: string): ServiceResponse<{}> {
+  return serviceError("INTERNAL_SERVER_ERROR", message, errorCode)
+}
@@ -3,6 +3,7 @@ export interface UserJWTDAO {
     email:string
     fullName:string 
     role:string
+    sessionId?:string
  }
 
 export interface UserLoginDTO {
@@ -16,6 +17,31 @@ export interface UserRegisterDTO {
     password:string
 }
 
+export interface UserUpdateDTO {
+    fullName?:string 
+    email?:string 
+    password?:string
+}
+
+export interface UserRefreshTokenDTO {
+    refreshToken:string
+}
+
+export interface UserAuthResponseDTO {
+    token:string
+    refreshToken:string
+    user:UserJWTDAO
+}
+
+// Decoded JWT payload is attached to the request by authMiddleware
+declare global {
+    namespace Express {
+        interface Request {
+            user?: UserJWTDAO
+        }
+    }
+}
+
 // Exclude keys from user
 export function exclude<User, Key extends keyof User>(
   user: User,
@@ -26,4 +52,3 @@ export function exclude<User, Key extends keyof User>(
   }
   return user;
 }
-
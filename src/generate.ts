@@ -0,0 +1,8 @@
+import "dotenv/config";
+import "./paths";
+import startGenerateApp from "./app/generate";
+import { parseArguments } from "$utils/cli.utils";
+
+// Entry point of the domain generator, it only writes source files :
+// no environment validation, no database and no shutdown signals, unlike src/index.ts
+startGenerateApp(parseArguments(process.argv))
@@ -1,25 +1,24 @@
 import "dotenv/config";
 import "./paths";
+// Before any app, stops here when the environment is invalid
+import "./config/load";
 import app from "./app/instance";
 import { displayAsciiArt } from "$utils/ascii_art.utils";
 import { REST_ASCII_ART } from './utils/ascii_art.utils';
-
-function parseArguments(args: string[]): Record<string, string> {
-  const parsedArgs: Record<string, string> = {};
-
-  for (let i = 2; i < args.length; i += 2) {
-    const argClean = args[i].replace(/^--/, ''); // Remove leading --
-    const argName = argClean.split("=")[0] || '';
-    const argValue = argClean.split("=")[1] || '';
-    parsedArgs[argName] = argValue;
-  }
-
-  return parsedArgs;
-}
+import { registerShutdownSignals } from "$utils/shutdown.utils";
+import { parseArguments } from "$utils/cli.utils";
 
 const parsedArgs = parseArguments(process.argv);
 
+// Every app closes what it registered with `onShutdown` on SIGTERM / SIGINT
+registerShutdownSignals()
+
 if (parsedArgs["service"] == "rest") {
   displayAsciiArt(REST_ASCII_ART)
   app.restApp()
-}
\ No newline at end of file
+}
+
+if (parsedArgs["service"] == "cron") {
+  app.cronApp()
+}
+
@@ -0,0 +1,29 @@
+import { CronJob } from "$entities/Cron";
+import { prisma } from "$utils/prisma.utils";
+import Logger from "$pkg/logger";
+
+// Revoked tokens are kept a while, reusing one still revokes its whole session (see AuthService.refresh)
+const REVOKED_TOKEN_RETENTION_DAYS = 7
+
+const CleanupRefreshTokensJob: CronJob = {
+    name: "cleanup-refresh-tokens",
+    description: "Delete expired refresh tokens and the ones revoked for more than a week",
+    schedule: "0 3 * * *",
+    timeoutMs: 5 * 60 * 1000,
+    handler: async () => {
+        const revokedBefore = new Date(Date.now() - REVOKED_TOKEN_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+
+        const { count } = await prisma.refreshToken.deleteMany({
+            where: {
+                OR: [
+                    { expiresAt: { lt: new Date() } },
+                    { revokedAt: { lt: revokedBefore } }
+                ]
+            }
+        })
+
+        Logger.info(`CleanupRefreshTokensJob : deleted ${count} refresh tokens`)
+    }
+}
+
+export default CleanupRefreshTokensJob
@@ -0,0 +1,19 @@
+import { CronJob } from "$entities/Cron";
+import * as MailService from "$services/MailService";
+import Logger from "$pkg/logger";
+
+const SendMailOutboxJob: CronJob = {
+    name: "send-mail-outbox",
+    description: "Send the mails queued with MailService.queueMail, and retry the failed ones",
+    schedule: "* * * * *",
+    timeoutMs: 5 * 60 * 1000,
+    handler: async ({ signal }) => {
+        const report = await MailService.processOutbox(50, signal)
+
+        if (report.sent + report.retried + report.failed > 0) {
+            Logger.info(`SendMailOutboxJob : ${report.sent} sent, ${report.retried} to retry, ${report.failed} failed`)
+        }
+    }
+}
+
+export default SendMailOutboxJob
@@ -0,0 +1,11 @@
+import { CronJob } from "$entities/Cron";
+import CleanupRefreshTokensJob from "./CleanupRefreshTokens";
+import SendMailOutboxJob from "./SendMailOutbox";
+
+// Jobs scheduled by the cron app (`--service=cron`) and listed on the admin endpoints (`/cron-jobs`)
+const CronJobs: CronJob[] = [
+    CleanupRefreshTokensJob,
+    SendMailOutboxJob
+];
+
+export default CronJobs;
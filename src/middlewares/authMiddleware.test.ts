@@ -0,0 +1,54 @@
+import express from "express";
+import { AddressInfo } from "net";
+import { isSessionActive } from "$services/AuthService";
+import { signUserToken } from "$utils/jwt.utils";
+import authMiddleware from "./authMiddleware";
+
+jest.mock("$config/index", () => ({
+    getConfig: () => ({ jwt: { secret: "testsecret-testsecret", accessTokenExpiresIn: "15m", refreshTokenExpiresInDays: 30 } })
+}))
+
+jest.mock("$services/AuthService", () => ({
+    isSessionActive: jest.fn()
+}))
+
+describe('test authMiddleware', ()=>{
+    const app = express()
+    app.get("/me", authMiddleware, (req, res) => res.json(req.user))
+
+    const server = app.listen(0)
+    const baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`
+    const user = { id: 'user-1', email: 'tom@mail.com', fullName: 'Tom', role: 'USER', sessionId: 'session-1' }
+
+    const get = (authorization?: string) => fetch(`${baseUrl}/me`, { headers: authorization ? { authorization } : {} })
+
+    beforeEach(()=>{
+        (isSessionActive as jest.Mock).mockResolvedValue(true)
+    })
+
+    afterAll(()=>{
+        server.close()
+    })
+
+    test('should attach the user of a valid token of an active session', async ()=>{
+        const response = await get(`Bearer ${signUserToken(user)}`)
+
+        expect(response.status).toBe(200)
+        expect(await response.json()).toEqual(user)
+        expect(isSessionActive).toHaveBeenCalledWith('session-1')
+    })
+
+    test('should reject a missing, invalid or revoked token', async ()=>{
+        const missing = await get()
+        expect(missing.status).toBe(401)
+        expect((await missing.json()).message).toBe('Missing bearer token')
+
+        const invalid = await get('Bearer not-a-jwt')
+        expect((await invalid.json()).message).toBe('Invalid or expired token')
+
+        ;(isSessionActive as jest.Mock).mockResolvedValue(false)
+        const revoked = await get(`Bearer ${signUserToken(user)}`)
+        expect(revoked.status).toBe(401)
+        expect((await revoked.json()).message).toBe('Session has been revoked')
+    })
+});
@@ -0,0 +1,40 @@
+import { NextFunction, Request, Response } from "express";
+import { response_internal_server_error, response_unauthorized } from "$utils/response.utils";
+import { verifyUserToken } from "$utils/jwt.utils";
+import { isSessionActive } from "$services/AuthService";
+import { setRequestContextUser } from "$utils/request_context.utils";
+import Logger from "$pkg/logger";
+
+// Verifies the `Authorization: Bearer <token>` header, rejects tokens whose
+// session has been revoked, and attaches the decoded user to `req.user`.
+const authMiddleware = async (req: Request, res: Response, next: NextFunction) => {
+  const authorization = req.headers.authorization;
+
+  if (!authorization || !authorization.startsWith("Bearer ")) {
+    return response_unauthorized(res, "Missing bearer token");
+  }
+
+  const token = authorization.substring("Bearer ".length).trim();
+
+  try {
+    req.user = verifyUserToken(token);
+  } catch (err) {
+    return response_unauthorized(res, "Invalid or expired token");
+  }
+
+  // Log lines of the rest of the request carry the user id
+  setRequestContextUser(req.user.id);
+
+  try {
+    if (!req.user.sessionId || !(await isSessionActive(req.user.sessionId))) {
+      return response_unauthorized(res, "Session has been revoked");
+    }
+  } catch (err) {
+    Logger.error(`authMiddleware : ${err}`);
+    return response_internal_server_error(res);
+  }
+
+  next();
+};
+
+export default authMiddleware;
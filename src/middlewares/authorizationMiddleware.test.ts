@@ -0,0 +1,42 @@
+import express, { NextFunction, Request, Response } from "express";
+import { AddressInfo } from "net";
+import { authorize, can } from "./authorizationMiddleware";
+
+describe('test authorizationMiddleware', ()=>{
+    const app = express()
+
+    // Stands in for authMiddleware, the role comes from the x-role header
+    app.use((req: Request, res: Response, next: NextFunction) => {
+        const role = req.header("x-role")
+        if (role) req.user = { id: 'user-1', email: 'tom@mail.com', fullName: 'Tom', role }
+        next()
+    })
+    app.get("/admin", authorize("ADMIN"), (req, res) => res.json({ ok: true }))
+    app.get("/users", can("user:read"), (req, res) => res.json({ ok: true }))
+
+    const server = app.listen(0)
+    const baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`
+
+    const statusOf = async (path: string, role?: string) => (await fetch(`${baseUrl}${path}`, { headers: role ? { "x-role": role } : {} })).status
+
+    afterAll(()=>{
+        server.close()
+    })
+
+    test('should allow the roles and permissions given', async ()=>{
+        expect(await statusOf("/admin", "ADMIN")).toBe(200)
+        expect(await statusOf("/users", "ADMIN")).toBe(200)
+    })
+
+    test('should refuse other roles, and requests without a user', async ()=>{
+        expect(await statusOf("/admin", "USER")).toBe(403)
+        expect(await statusOf("/users", "USER")).toBe(403)
+        expect(await statusOf("/admin")).toBe(401)
+        expect(await statusOf("/users")).toBe(401)
+    })
+
+    test('should refuse an unknown role', async ()=>{
+        expect(await statusOf("/admin", "SUPERADMIN")).toBe(403)
+        expect(await statusOf("/users", "SUPERADMIN")).toBe(403)
+    })
+});
@@ -0,0 +1,32 @@
+import { NextFunction, Request, Response } from "express";
+import { Roles } from "@prisma/client";
+import { response_forbidden, response_unauthorized } from "$utils/response.utils";
+import { Permission, hasPermission, hasRole } from "$utils/permission.utils";
+
+// Must be placed after authMiddleware, since both read `req.user`
+
+// Allow the request only if the user has one of the given roles, e.g. authorize("ADMIN")
+export function authorize(...roles: Roles[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) return response_unauthorized(res);
+
+    if (!hasRole(req.user, ...roles)) {
+      return response_forbidden(res, "You don't have the required role to access this resource");
+    }
+
+    next();
+  };
+}
+
+// Allow the request only if the user's role has every given permission, e.g. can("user:update")
+export function can(...permissions: Permission[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) return response_unauthorized(res);
+
+    if (!hasPermission(req.user, ...permissions)) {
+      return response_forbidden(res, "You don't have permission to access this resource");
+    }
+
+    next();
+  };
+}
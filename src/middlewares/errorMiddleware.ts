@@ -0,0 +1,47 @@
+import { NextFunction, Request, Response } from "express";
+import { handleServiceErrorWithResponse, response_bad_request, response_handler, response_internal_server_error } from "$utils/response.utils";
+import { translatePrismaError } from "$utils/prisma_error.utils";
+import Logger from "$pkg/logger";
+import { getConfig } from "$config/index";
+import { FilteringQueryError } from "$controllers/helpers/CheckFilteringQuery";
+
+// Errors thrown by express itself and its body parser carry their status, e.g. 400 on invalid JSON, 413 on a too large body
+function getHttpErrorStatus(err: any): number | undefined {
+  const status = err?.status ?? err?.statusCode;
+  return typeof status === "number" && status >= 400 && status < 500 ? status : undefined;
+}
+
+// Last middleware of the app, answers errors passed to `next(err)` (or thrown by a handler, see `wrapAsyncHandlers`)
+// with the standard envelope, prisma errors are translated (e.g. unique constraint -> 409), an invalid filtering query
+// is a 400, anything else is a 500
+const errorMiddleware = (err: any, req: Request, res: Response, next: NextFunction) => {
+  if (res.headersSent) return next(err);
+
+  const context = `${req.method} ${req.originalUrl}${req.user ? ` (user ${req.user.id})` : ""}`;
+
+  if (err instanceof FilteringQueryError) return response_bad_request(res, err.message, err.errors);
+
+  const translated = translatePrismaError(err);
+  if (translated) {
+    Logger.warn(`errorMiddleware : ${context} : ${translated.err?.errorCode} ${translated.err?.message}`);
+    return handleServiceErrorWithResponse(res, translated);
+  }
+
+  const status = getHttpErrorStatus(err);
+  if (status) {
+    Logger.warn(`errorMiddleware : ${context} : ${status} ${err.message}`);
+    if (err.type === "entity.parse.failed") return response_handler(res, status, undefined, "Invalid JSON body", [], "INVALID_JSON");
+
+    // body parser types, e.g. "entity.too.large" -> ENTITY_TOO_LARGE
+    const errorCode = typeof err.type === "string" ? err.type.toUpperCase().replace(/\./g, "_") : "BAD_REQUEST";
+    return response_handler(res, status, undefined, err.message, [], errorCode);
+  }
+
+  Logger.error(`errorMiddleware : ${context} : ${err?.stack ?? err}`);
+
+  // Stack traces help while developing, but must not leak anywhere else
+  const errors = getConfig().isDev && err?.stack ? String(err.stack).split("\n") : [];
+  return response_internal_server_error(res, undefined, errors);
+};
+
+export default errorMiddleware;
@@ -5,19 +5,14 @@ import Logger from "$pkg/logger";
 // Override the stream method by telling
 // Morgan to use our custom logger instead of the console.log.
 const stream: StreamOptions = {
-  // Use the http severity
-  write: (message:any) => Logger.http(message),
+  // Use the http severity, without morgan's trailing line break
+  write: (message:any) => Logger.http(message.trim()),
 };
 
 // Skip all the Morgan http log if the
-// application is not running in development mode.
-// This method is not really needed here since
-// we already told to the logger that it should print
-// only warning and error messages in production.
-const skip = () => {
-  const env = process.env.NODE_ENV || "development";
-  return env !== "development";
-};
+// logger doesn't print http messages anyway (see LOG_LEVEL),
+// so the line isn't even built.
+const skip = () => !Logger.isLevelEnabled("http");
 
 // Build the morgan middleware
 const morganMiddleware = morgan(
@@ -0,0 +1,47 @@
+import express from "express";
+import { AddressInfo } from "net";
+import { getRequestContext, setRequestContextUser } from "$utils/request_context.utils";
+import requestIdMiddleware from "./requestIdMiddleware";
+
+describe('test requestIdMiddleware', ()=>{
+    const app = express()
+    app.use(requestIdMiddleware)
+    app.use(express.json())
+    app.post("/context", async (req, res) => {
+        setRequestContextUser(req.body.userId)
+        await new Promise((resolve) => setTimeout(resolve, 10))
+        res.json(getRequestContext())
+    })
+
+    const server = app.listen(0)
+    const baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`
+
+    const post = (requestId?: string) => fetch(`${baseUrl}/context`, {
+        method: "POST",
+        headers: { "content-type": "application/json", ...(requestId ? { "x-request-id": requestId } : {}) },
+        body: JSON.stringify({ userId: `user-${requestId}` })
+    })
+
+    afterAll(()=>{
+        server.close()
+    })
+
+    test('should keep the context of concurrent requests apart, across the body parser and awaits', async ()=>{
+        const responses = await Promise.all(["a", "b", "c"].map(post))
+
+        for (const [index, requestId] of ["a", "b", "c"].entries()) {
+            expect(responses[index].headers.get("x-request-id")).toBe(requestId)
+            expect(await responses[index].json()).toEqual({ requestId, userId: `user-${requestId}` })
+        }
+    })
+
+    test('should generate an id when the header is missing or unsafe', async ()=>{
+        for (const response of [await post(), await post("bad id\twith spaces")]) {
+            expect(response.headers.get("x-request-id")).toMatch(/^[0-9a-f-]{36}$/)
+        }
+    })
+
+    test('should have no context outside of a request', ()=>{
+        expect(getRequestContext()).toBeUndefined()
+    })
+});
@@ -0,0 +1,20 @@
+import { NextFunction, Request, Response } from "express";
+import { randomUUID } from "crypto";
+import { runWithRequestContext } from "$utils/request_context.utils";
+
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+// IDs sent by a client or a proxy are only kept when they can't mess up the log lines
+const VALID_REQUEST_ID = /^[\w\-.:]{1,128}$/;
+
+// First middleware of the app, accepts the caller's `X-Request-Id` or generates one, echoes it in the response
+// and keeps it in the request context so every log line of the request carries it (see pkg/logger)
+const requestIdMiddleware = (req: Request, res: Response, next: NextFunction) => {
+  const incoming = req.get(REQUEST_ID_HEADER);
+  const requestId = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : randomUUID();
+
+  res.setHeader(REQUEST_ID_HEADER, requestId);
+  runWithRequestContext({ requestId }, next);
+};
+
+export default requestIdMiddleware;
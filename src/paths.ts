@@ -14,4 +14,5 @@ addAliases({
   $pkg : `${__dirname}/pkg`,
   $server : `${__dirname}/server`,
   $app : `${__dirname}/app`,
+  $jobs : `${__dirname}/jobs`,
 });
@@ -0,0 +1,130 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import winston from "winston";
+import { runWithRequestContext } from "$utils/request_context.utils";
+import { DateTime } from "luxon";
+import { createFileTransport, createLogFormat, getLogFileDate, getLogFormat, getLogLevel, getLogTimezone } from "./utils";
+
+// Output of a format for one message, the way a transport would write it
+function render(format: winston.Logform.Format, level: string, message: string): string {
+    const info = format.transform({ level, message }) as winston.Logform.TransformableInfo
+    return String(info[Symbol.for("message") as any])
+}
+
+describe('test logger configuration', ()=>{
+    test('should read the level from LOG_LEVEL and fall back on ENVIRONMENT', ()=>{
+        expect(getLogLevel({ LOG_LEVEL: "http", ENVIRONMENT: "production" })).toBe("http")
+        expect(getLogLevel({ LOG_LEVEL: "verbose", ENVIRONMENT: "dev" })).toBe("debug")
+        expect(getLogLevel({ ENVIRONMENT: "production" })).toBe("warn")
+    })
+
+    test('should date the files in Asia/Jakarta unless LOG_TIMEZONE is set', ()=>{
+        expect(getLogTimezone({})).toBe("Asia/Jakarta")
+        expect(getLogTimezone({ LOG_TIMEZONE: "" })).toBe("Asia/Jakarta")
+        expect(getLogTimezone({ LOG_TIMEZONE: "Mars/Olympus" })).toBe("Asia/Jakarta")
+        expect(getLogTimezone({ LOG_TIMEZONE: "UTC" })).toBe("UTC")
+        expect(getLogTimezone({ TZ: "UTC" })).toBe("Asia/Jakarta")
+    })
+
+    test('should name the file after the date in the log timezone', ()=>{
+        const date = new Date("2024-01-31T18:00:00Z")
+
+        expect(getLogFileDate(date, "Asia/Jakarta")).toBe("2024-02/2024-02-01")
+        expect(getLogFileDate(date, "UTC")).toBe("2024-01/2024-01-31")
+    })
+
+    test('should only switch to json lines when asked to', ()=>{
+        expect(getLogFormat({ LOG_FORMAT: "json" })).toBe("json")
+        expect(getLogFormat({ LOG_FORMAT: "xml" })).toBe("text")
+        expect(getLogFormat({})).toBe("text")
+    })
+});
+
+describe('test createLogFormat', ()=>{
+    test('should write json lines with the request context and process metadata', ()=>{
+        const line = runWithRequestContext({ requestId: "req-1", userId: "user-1" }, () =>
+            render(createLogFormat("json"), "warn", "UserService.update : conflict")
+        )
+
+        expect(JSON.parse(line)).toEqual({
+            level: "warn",
+            message: "UserService.update : conflict",
+            timestamp: expect.any(String),
+            requestId: "req-1",
+            userId: "user-1",
+            hostname: os.hostname(),
+            pid: process.pid,
+            environment: process.env.ENVIRONMENT,
+        })
+    })
+
+    test('should keep the readable lines by default', ()=>{
+        expect(render(createLogFormat("text"), "info", "started")).toMatch(/^\[\d{4}-\d\d-\d\d \d\d:\d\d:\d\d\] \[info\] : "started"$/)
+
+        const line = runWithRequestContext({ requestId: "req-1" }, () => render(createLogFormat("text"), "info", "started"))
+        expect(line).toMatch(/\[info\] \[req-1\] : "started"$/)
+    })
+
+    test('should write the text timestamp in the log timezone', ()=>{
+        const before = DateTime.now().setZone("Pacific/Kiritimati").toFormat("yyyy-MM-dd HH:mm")
+        const line = render(createLogFormat("text", "Pacific/Kiritimati"), "info", "started")
+        const after = DateTime.now().setZone("Pacific/Kiritimati").toFormat("yyyy-MM-dd HH:mm")
+
+        expect([before, after]).toContain(line.slice(1, 17))
+    })
+
+    test('should not change the timezone of the process', ()=>{
+        const timezone = process.env.TZ
+        jest.isolateModules(() => require("./index"))
+
+        expect(process.env.TZ).toBe(timezone)
+    })
+});
+
+describe('test createFileTransport', ()=>{
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "logs-"))
+
+    afterAll(()=>{
+        fs.rmSync(dir, { recursive: true, force: true })
+    })
+
+    test('should write into <name>/<yyyy-mm>/<yyyy-mm-dd>.log', async ()=>{
+        const transport = createFileTransport("errors", "error", { LOG_DIR: dir, LOG_TIMEZONE: "Pacific/Kiritimati" })
+        const logger = winston.createLogger({ format: createLogFormat("text"), transports: [transport] })
+
+        logger.error("failure")
+
+        const file = path.join(dir, "errors", `${getLogFileDate(new Date(), "Pacific/Kiritimati")}.log`)
+
+        // The file stream is flushed asynchronously
+        for (let attempt = 0; attempt < 50 && !(fs.existsSync(file) && fs.statSync(file).size > 0); attempt++) {
+            await new Promise((resolve) => setTimeout(resolve, 20))
+        }
+        logger.close()
+
+        expect(fs.readFileSync(file, "utf8")).toContain('[error] : "failure"')
+    })
+
+    test('should move to the next file at midnight in the log timezone', async ()=>{
+        jest.useFakeTimers({ doNotFake: ["nextTick", "setImmediate", "setTimeout", "clearTimeout", "setInterval", "clearInterval", "queueMicrotask"] })
+        const transport = createFileTransport("info", "info", { LOG_DIR: dir, LOG_TIMEZONE: "Asia/Jakarta" })
+        const logger = winston.createLogger({ format: createLogFormat("text"), transports: [transport] })
+
+        jest.setSystemTime(new Date("2024-01-31T16:59:00Z"))
+        logger.info("before midnight")
+        jest.setSystemTime(new Date("2024-01-31T17:01:00Z"))
+        logger.info("after midnight")
+        jest.useRealTimers()
+
+        const files = [path.join(dir, "info", "2024-01", "2024-01-31.log"), path.join(dir, "info", "2024-02", "2024-02-01.log")]
+        for (let attempt = 0; attempt < 50 && !files.every((file) => fs.existsSync(file) && fs.statSync(file).size > 0); attempt++) {
+            await new Promise((resolve) => setTimeout(resolve, 20))
+        }
+        logger.close()
+
+        expect(fs.readFileSync(files[0], "utf8")).toContain('"before midnight"')
+        expect(fs.readFileSync(files[0], "utf8")).not.toContain('"after midnight"')
+        expect(fs.readFileSync(files[1], "utf8")).toContain('"after midnight"')
+    })
+});
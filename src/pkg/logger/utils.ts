@@ -0,0 +1,135 @@
+import os from "os";
+import winston from "winston";
+import TransportStream from "winston-transport";
+import DailyRotateFile from "winston-daily-rotate-file";
+import { DateTime } from "luxon";
+import { getRequestContext } from "$utils/request_context.utils";
+
+export const LOG_LEVELS = ["error", "warn", "info", "http", "debug"] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+
+export type LogFormat = "text" | "json";
+
+// The logger reads its variables itself instead of `getConfig()`, it must work to report an invalid config
+// LOG_LEVEL when set, otherwise everything in dev (ENVIRONMENT) and only warnings and errors anywhere else
+export function getLogLevel(env: NodeJS.ProcessEnv = process.env): LogLevel {
+  if (LOG_LEVELS.includes(env.LOG_LEVEL as LogLevel)) return env.LOG_LEVEL as LogLevel;
+
+  return env.ENVIRONMENT === "dev" ? "debug" : "warn";
+}
+
+// Timezone of the timestamps and file dates, the one of the team (Asia/Jakarta) unless LOG_TIMEZONE is a valid IANA zone.
+// It is only applied by the logger, the process keeps its own timezone
+export function getLogTimezone(env: NodeJS.ProcessEnv = process.env): string {
+  const timezone = env.LOG_TIMEZONE;
+  return timezone && DateTime.now().setZone(timezone).isValid ? timezone : "Asia/Jakarta";
+}
+
+// `<yyyy-mm>/<yyyy-mm-dd>` of the file a line written at `date` goes to
+export function getLogFileDate(date: Date, timezone: string): string {
+  return DateTime.fromJSDate(date).setZone(timezone).toFormat("yyyy-MM/yyyy-MM-dd");
+}
+
+export function getLogFormat(env: NodeJS.ProcessEnv = process.env): LogFormat {
+  return env.LOG_FORMAT === "json" ? "json" : "text";
+}
+
+// Attach the request id (and user id once authenticated) of the current request, see requestIdMiddleware
+const requestContext = winston.format((info) => {
+  const context = getRequestContext();
+  if (context) {
+    info.requestId = context.requestId;
+    if (context.userId) info.userId = context.userId;
+  }
+  return info;
+});
+
+// "[<request id>] " or "[<request id> user:<user id>] ", nothing outside of a request
+const contextLabel = (info: winston.Logform.TransformableInfo) =>
+  info.requestId ? `[${info.requestId}${info.userId ? ` user:${info.userId}` : ""}] ` : "";
+
+/**
+ * Format of every transport
+ *   text : `[2024-01-01 10:00:00] [warn] [<request id>] : "message"`, for humans
+ *   json : one JSON object per line with timestamp, level, message, request / user id and process metadata, for log shippers
+ *   the text timestamp is written in `timezone`, the json one is an ISO UTC date
+ * @param format - see `getLogFormat`
+ */
+export function createLogFormat(format: LogFormat, timezone: string = getLogTimezone()): winston.Logform.Format {
+  if (format === "json") {
+    const metadata = {
+      hostname: os.hostname(),
+      pid: process.pid,
+      environment: process.env.ENVIRONMENT,
+    };
+
+    return winston.format.combine(
+      winston.format.timestamp(),
+      requestContext(),
+      winston.format((info) => Object.assign(info, metadata))(),
+      winston.format.errors({ stack: true }),
+      winston.format.json(),
+    );
+  }
+
+  return winston.format.combine(
+    // Add the message timestamp with the preferred format
+    winston.format.timestamp({ format: () => DateTime.now().setZone(timezone).toFormat("yyyy-MM-dd HH:mm:ss") }),
+    requestContext(),
+    winston.format.printf((info) => `[${info.timestamp}] [${info.level}] ${contextLabel(info)}: ${JSON.stringify(info.message, null, 2)}`),
+  );
+}
+
+/**
+ * DailyRotateFile dates its files with the local date of the process, this transport opens the file of the day in its own timezone :
+ * the date is given to DailyRotateFile as a literal pattern, and the file is reopened once the date changes in `timezone`.
+ * Size caps and retention are still handled by DailyRotateFile, through the audit file shared by the files of the folder
+ */
+class ZonedDailyRotateFile extends TransportStream {
+  private file: DailyRotateFile | null = null;
+  private date = "";
+
+  constructor(private readonly options: DailyRotateFile.DailyRotateFileTransportOptions & { timezone: string }) {
+    super({ level: options.level });
+  }
+
+  log(info: winston.Logform.TransformableInfo, callback: () => void): void {
+    const date = getLogFileDate(new Date(), this.options.timezone);
+    if (!this.file || date !== this.date) {
+      this.file?.close!();
+      this.file = new DailyRotateFile({ ...this.options, datePattern: `[${date}]` });
+      this.file.on("error", (error) => this.emit("error", error));
+      this.date = date;
+    }
+
+    this.file.log!(info, () => {
+      this.emit("logged", info);
+      callback();
+    });
+  }
+
+  close(): void {
+    this.file?.close!();
+    this.file = null;
+  }
+}
+
+/**
+ * File transport rotated every day into `<LOG_DIR>/<name>/<yyyy-mm>/<yyyy-mm-dd>.log`, dated in the log timezone
+ *   LOG_RETENTION : how long files are kept, days ("30d") or a number of files, defaults to 30 days
+ *   LOG_MAX_SIZE  : size cap of a file ("20m"), the day continues in `<yyyy-mm-dd>.log.1`, ... , no cap by default
+ * @param name  - sub folder, e.g. `errors`
+ * @param level - lowest severity written to the file, everything when omitted
+ */
+export function createFileTransport(name: string, level?: LogLevel, env: NodeJS.ProcessEnv = process.env): TransportStream {
+  const dir = `${env.LOG_DIR || "logs"}/${name}`;
+
+  return new ZonedDailyRotateFile({
+    level,
+    filename: `${dir}/%DATE%.log`,
+    maxFiles: env.LOG_RETENTION || "30d",
+    maxSize: env.LOG_MAX_SIZE || undefined,
+    auditFile: `${dir}/.audit.json`,
+    timezone: getLogTimezone(env),
+  });
+}
@@ -0,0 +1,36 @@
+import { getConfig } from "$config/index";
+import { MailMessage, MailTransport, SentMail } from "./interfaces";
+import { createMailTransport } from "./transports";
+
+export { clearSentMails, getSentMails } from "./transports";
+
+/*
+  Sends a mail right away through MAIL_TRANSPORT :
+
+    import { sendMail } from "$pkg/mailer";
+
+    await sendMail({ to: user.email, ...renderMail(PasswordResetMail, variables) })
+
+  It fails when the SMTP server is down, queue the mails users wait for with MailService.queueMail instead,
+  the outbox retries them until they are delivered.
+*/
+class Mailer {
+  private static transport?: MailTransport;
+
+  static getTransport(): MailTransport {
+    if (!Mailer.transport) {
+      const { transport, from, dir, smtp } = getConfig().mail;
+      Mailer.transport = createMailTransport(transport, { from, dir, smtp });
+    }
+
+    return Mailer.transport;
+  }
+}
+
+export function getMailTransport(): MailTransport {
+  return Mailer.getTransport();
+}
+
+export function sendMail(message: MailMessage): Promise<SentMail> {
+  return Mailer.getTransport().send(message);
+}
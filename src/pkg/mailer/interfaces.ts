@@ -0,0 +1,71 @@
+export const MAIL_TRANSPORTS = ["smtp", "json", "memory"] as const;
+export type MailTransportName = typeof MAIL_TRANSPORTS[number];
+
+export interface MailRecipients {
+  to: string | string[]
+  cc?: string | string[]
+  bcc?: string | string[]
+}
+
+export interface MailMessage extends MailRecipients {
+  // Defaults to MAIL_FROM
+  from?: string
+  replyTo?: string
+  subject: string
+  html: string
+  text: string
+}
+
+export interface SentMail {
+  messageId: string
+  message: MailMessage
+  sentAt: Date
+}
+
+export interface MailTransport {
+  name: MailTransportName
+  send: (message: MailMessage) => Promise<SentMail>
+  // Resolves when the transport can send, e.g. the SMTP server accepts the credentials
+  verify: () => Promise<void>
+  close: () => void
+}
+
+/*
+  Wraps the content of every template, `{{{content}}}` is the rendered template,
+  the variables of the template and `subject` are available too
+*/
+export interface MailLayout {
+  html: string
+  text: string
+}
+
+/*
+  An email with its variables, see templates.ts :
+
+    const WelcomeMail: MailTemplate<{ fullName: string }> = {
+      name: "welcome",
+      subject: "Welcome {{fullName}}",
+      html: "<p>Hello {{fullName}}</p>",
+      text: "Hello {{fullName}}",
+    }
+
+  `{{name}}` is replaced by the escaped variable, `{{{name}}}` by the raw one,
+  and `{{#name}}...{{/name}}` is only kept when the variable is truthy
+*/
+export interface MailTemplate<Variables extends object> {
+  // Recorded in the outbox, e.g. to count the mails of a template
+  name: string
+  subject: string
+  html: string
+  text: string
+  // Defaults to the layout given to renderMail (DefaultLayout), null to send the template as is
+  layout?: MailLayout | null
+  // Type only, never set : keeps `Variables` on the template so renderMail checks them
+  readonly variables?: Variables
+}
+
+export interface RenderedMail {
+  subject: string
+  html: string
+  text: string
+}
@@ -0,0 +1,92 @@
+import { MailLayout, MailTemplate } from "./interfaces";
+
+// Layout of every template that does not set its own, keep the styles inline, most mail clients drop <style>
+export const DefaultLayout: MailLayout = {
+  html: `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>{{subject}}</title>
+  </head>
+  <body style="margin:0;padding:24px;background:#f4f4f5;font-family:Arial,Helvetica,sans-serif;color:#18181b;">
+    <div style="max-width:560px;margin:0 auto;padding:32px;background:#ffffff;border-radius:8px;">
+      {{{content}}}
+    </div>
+    <p style="max-width:560px;margin:16px auto 0;font-size:12px;color:#71717a;text-align:center;">
+      You received this email because of your account on our app, please do not reply to it.
+    </p>
+  </body>
+</html>`,
+  text: `{{{content}}}
+
+--
+You received this email because of your account on our app, please do not reply to it.`,
+};
+
+const BUTTON_STYLE = "display:inline-block;padding:12px 20px;background:#2563eb;color:#ffffff;border-radius:6px;text-decoration:none;";
+
+export interface AccountVerificationMailVariables {
+  fullName: string
+  verificationUrl: string
+  expiresInHours: number
+}
+
+export const AccountVerificationMail: MailTemplate<AccountVerificationMailVariables> = {
+  name: "account-verification",
+  subject: "Verify your email address",
+  html: `<p>Hello {{fullName}},</p>
+<p>Please confirm your email address to activate your account.</p>
+<p><a href="{{verificationUrl}}" style="${BUTTON_STYLE}">Verify my email</a></p>
+<p>This link expires in {{expiresInHours}} hours.</p>`,
+  text: `Hello {{fullName}},
+
+Please confirm your email address to activate your account by opening this link :
+{{verificationUrl}}
+
+This link expires in {{expiresInHours}} hours.`,
+};
+
+export interface PasswordResetMailVariables {
+  fullName: string
+  resetUrl: string
+  expiresInMinutes: number
+}
+
+export const PasswordResetMail: MailTemplate<PasswordResetMailVariables> = {
+  name: "password-reset",
+  subject: "Reset your password",
+  html: `<p>Hello {{fullName}},</p>
+<p>We received a request to reset the password of your account.</p>
+<p><a href="{{resetUrl}}" style="${BUTTON_STYLE}">Reset my password</a></p>
+<p>This link expires in {{expiresInMinutes}} minutes. If you did not request it, ignore this email, your password stays the same.</p>`,
+  text: `Hello {{fullName}},
+
+We received a request to reset the password of your account, open this link to choose a new one :
+{{resetUrl}}
+
+This link expires in {{expiresInMinutes}} minutes. If you did not request it, ignore this email, your password stays the same.`,
+};
+
+export interface NotificationMailVariables {
+  fullName: string
+  title: string
+  message: string
+  // Shown as a button when set, labelled with actionLabel
+  actionUrl?: string
+  actionLabel?: string
+}
+
+export const NotificationMail: MailTemplate<NotificationMailVariables> = {
+  name: "notification",
+  subject: "{{title}}",
+  html: `<p>Hello {{fullName}},</p>
+<p>{{message}}</p>
+{{#actionUrl}}<p><a href="{{actionUrl}}" style="${BUTTON_STYLE}">{{actionLabel}}</a></p>{{/actionUrl}}`,
+  text: `Hello {{fullName}},
+
+{{message}}
+{{#actionUrl}}
+{{actionLabel}} : {{actionUrl}}
+{{/actionUrl}}`,
+};
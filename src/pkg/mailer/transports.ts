@@ -0,0 +1,107 @@
+import fs from "fs/promises";
+import path from "path";
+import nodemailer from "nodemailer";
+import { MailMessage, MailTransport, MailTransportName, SentMail } from "./interfaces";
+
+export interface MailTransportOptions {
+  from: string
+  // json transport only, folder of the written mails
+  dir: string
+  smtp: {
+    host?: string
+    port: number
+    secure: boolean
+    user?: string
+    password?: string
+  }
+}
+
+function toMailOptions(message: MailMessage, from: string) {
+  return {
+    from: message.from ?? from,
+    to: message.to,
+    cc: message.cc,
+    bcc: message.bcc,
+    replyTo: message.replyTo,
+    subject: message.subject,
+    html: message.html,
+    text: message.text,
+  };
+}
+
+function createSmtpTransport(options: MailTransportOptions): MailTransport {
+  const { host, port, secure, user, password } = options.smtp;
+  const transporter = nodemailer.createTransport({
+    host,
+    port,
+    secure,
+    auth: user ? { user, pass: password } : undefined,
+  });
+
+  return {
+    name: "smtp",
+    send: async (message) => {
+      const info = await transporter.sendMail(toMailOptions(message, options.from));
+      if (info.rejected.length > 0) throw new Error(`Rejected recipients : ${info.rejected.join(", ")}`);
+
+      return { messageId: info.messageId, message, sentAt: new Date() };
+    },
+    verify: async () => {
+      await transporter.verify();
+    },
+    close: () => transporter.close(),
+  };
+}
+
+// Builds the whole mail without sending it, `onSent` receives it with the raw JSON of nodemailer
+function createJsonTransport(name: MailTransportName, from: string, onSent: (sent: SentMail, json: string) => Promise<void> | void): MailTransport {
+  const transporter = nodemailer.createTransport({ jsonTransport: true });
+
+  return {
+    name,
+    send: async (message) => {
+      const info = await transporter.sendMail(toMailOptions(message, from));
+      const sent: SentMail = { messageId: info.messageId, message: { ...message, from: message.from ?? from }, sentAt: new Date() };
+
+      await onSent(sent, info.message);
+      return sent;
+    },
+    verify: async () => {},
+    close: () => transporter.close(),
+  };
+}
+
+const sentMails: SentMail[] = [];
+
+// Mails sent through the memory transport, oldest first
+export function getSentMails(): SentMail[] {
+  return [...sentMails];
+}
+
+export function clearSentMails(): void {
+  sentMails.length = 0;
+}
+
+/**
+ * Create the transport sending the mails
+ *   smtp   -> SMTP server of SMTP_HOST
+ *   json   -> one JSON file per mail in `dir`, open it to check a mail in dev without an SMTP server
+ *   memory -> kept in memory, read them with getSentMails() in tests
+ */
+export function createMailTransport(name: MailTransportName, options: MailTransportOptions): MailTransport {
+  switch (name) {
+    case "smtp":
+      return createSmtpTransport(options);
+    case "json":
+      return createJsonTransport("json", options.from, async (sent, json) => {
+        const fileName = `${sent.sentAt.getTime()}-${sent.messageId.replace(/[^\w.-]/g, "")}.json`;
+
+        await fs.mkdir(options.dir, { recursive: true });
+        await fs.writeFile(path.join(options.dir, fileName), JSON.stringify(JSON.parse(json), null, 2));
+      });
+    case "memory":
+      return createJsonTransport("memory", options.from, (sent) => {
+        sentMails.push(sent);
+      });
+  }
+}
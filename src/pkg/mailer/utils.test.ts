@@ -0,0 +1,63 @@
+import { DefaultLayout, NotificationMail, PasswordResetMail } from "./templates";
+import { renderMail, renderTemplateString, toAddressList } from "./utils";
+
+describe('test renderTemplateString', ()=>{
+    test('should escape variables in HTML, except the raw ones', ()=>{
+        const variables = { name: '<b>Tom & "Jerry"</b>' }
+
+        expect(renderTemplateString("Hi {{name}}", variables, true)).toBe("Hi &lt;b&gt;Tom &amp; &quot;Jerry&quot;&lt;/b&gt;")
+        expect(renderTemplateString("Hi {{{name}}}", variables, true)).toBe('Hi <b>Tom & "Jerry"</b>')
+        expect(renderTemplateString("Hi {{name}}", variables, false)).toBe('Hi <b>Tom & "Jerry"</b>')
+    })
+
+    test('should keep sections of truthy variables and render missing ones empty', ()=>{
+        const template = "{{#url}}<a href=\"{{url}}\">open</a>{{/url}}{{missing}}"
+
+        expect(renderTemplateString(template, { url: "https://app.com/?a=1&b=2" }, true)).toBe('<a href="https://app.com/?a=1&amp;b=2">open</a>')
+        expect(renderTemplateString(template, { url: "" }, true)).toBe("")
+    })
+
+    test('should never render the tags found inside a value', ()=>{
+        expect(renderTemplateString("{{comment}}", { comment: "{{{secret}}}", secret: "token" }, false)).toBe("{{{secret}}}")
+    })
+});
+
+describe('test renderMail', ()=>{
+    test('should render the template inside the layout', ()=>{
+        const mail = renderMail(PasswordResetMail, { fullName: "Tom <admin>", resetUrl: "https://app.com/reset?token=abc", expiresInMinutes: 30 }, DefaultLayout)
+
+        expect(mail.subject).toBe("Reset your password")
+        expect(mail.html).toContain("<title>Reset your password</title>")
+        expect(mail.html).toContain("<p>Hello Tom &lt;admin&gt;,</p>")
+        expect(mail.html).toContain('href="https://app.com/reset?token=abc"')
+        expect(mail.text).toContain("Hello Tom <admin>,")
+        expect(mail.text).toContain("https://app.com/reset?token=abc\n\nThis link expires in 30 minutes.")
+        expect(mail.text).toContain("please do not reply to it.")
+    })
+
+    test('should use DefaultLayout unless told otherwise', ()=>{
+        const variables = { fullName: "Tom", title: "Order shipped", message: "Your order is on its way." }
+
+        expect(renderMail(NotificationMail, variables)).toEqual(renderMail(NotificationMail, variables, DefaultLayout))
+        expect(renderMail(NotificationMail, variables).html).toContain("<title>Order shipped</title>")
+        expect(renderMail(NotificationMail, variables, null).html).toBe("<p>Hello Tom,</p>\n<p>Your order is on its way.</p>\n")
+    })
+
+    test('should skip the layout of a template without one, and the optional action', ()=>{
+        const mail = renderMail({ ...NotificationMail, layout: null }, { fullName: "Tom", title: "Order shipped", message: "Your order is on its way." }, DefaultLayout)
+
+        expect(mail).toEqual({
+            subject: "Order shipped",
+            html: "<p>Hello Tom,</p>\n<p>Your order is on its way.</p>\n",
+            text: "Hello Tom,\n\nYour order is on its way.\n",
+        })
+    })
+});
+
+describe('test toAddressList', ()=>{
+    test('should accept a list or a comma separated string', ()=>{
+        expect(toAddressList("a@mail.com, b@mail.com,")).toEqual(["a@mail.com", "b@mail.com"])
+        expect(toAddressList(["a@mail.com"])).toEqual(["a@mail.com"])
+        expect(toAddressList(undefined)).toEqual([])
+    })
+});
@@ -0,0 +1,72 @@
+import { MailLayout, MailTemplate, RenderedMail } from "./interfaces";
+import { DefaultLayout } from "./templates";
+
+type Variables = Record<string, unknown>;
+
+// {{#section}}...{{/section}} | {{{raw}}} | {{escaped}}
+const TAG = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}|\{\{\{(\w+)\}\}\}|\{\{(\w+)\}\}/g;
+
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+/**
+ * Replace the variables of a template string
+ *   {{name}}               -> variable, HTML escaped when `escape` is true
+ *   {{{name}}}             -> variable as is, e.g. an already rendered content
+ *   {{#name}}...{{/name}}  -> kept only when the variable is truthy
+ * @param template  - template string
+ * @param variables - values of the variables, a missing variable renders as an empty string
+ * @param escape    - escape the `{{name}}` variables, true for HTML and false for plain text
+ */
+export function renderTemplateString(template: string, variables: Variables, escape: boolean): string {
+  // One pass, so a value containing `{{...}}` (e.g. typed by a user) is never rendered itself
+  return template.replace(TAG, (_, section?: string, content?: string, raw?: string, name?: string) => {
+    if (section) return variables[section] ? renderTemplateString(content!, variables, escape) : "";
+    if (raw) return stringify(variables[raw]);
+
+    const value = stringify(variables[name!]);
+    return escape ? escapeHtml(value) : value;
+  });
+}
+
+/**
+ * Render the subject, HTML and text of a template inside its layout
+ * @param template  - e.g. PasswordResetMail from templates.ts
+ * @param variables - variables of the template
+ * @param layout    - used when the template does not set its own layout, DefaultLayout by default and null for none
+ */
+export function renderMail<V extends object>(template: MailTemplate<V>, variables: V, layout: MailLayout | null = DefaultLayout): RenderedMail {
+  const values = variables as Variables;
+  const subject = renderTemplateString(template.subject, values, false);
+  const html = renderTemplateString(template.html, values, true);
+  const text = renderTemplateString(template.text, values, false);
+
+  const templateLayout = template.layout === undefined ? layout : template.layout;
+  if (!templateLayout) return { subject, html, text };
+
+  return {
+    subject,
+    html: renderTemplateString(templateLayout.html, { ...values, subject, content: html }, true),
+    text: renderTemplateString(templateLayout.text, { ...values, subject, content: text }, false),
+  };
+}
+
+export function toAddressList(addresses: string | string[] | undefined): string[] {
+  if (!addresses) return [];
+  return (Array.isArray(addresses) ? addresses : addresses.split(",")).map((address) => address.trim()).filter(Boolean);
+}
@@ -0,0 +1,27 @@
+import MidtransInstance from "./index";
+import { CoreApiChargeParameter, MidtransRefundParameter, MidtransTransaction } from "./interfaces";
+
+/*
+  Core API calls, every function throws a MidtransError when Midtrans answers an error
+  (e.g. 404 for an unknown transaction, 412 for a transaction that cannot be cancelled anymore) or cannot be reached
+*/
+
+// Pay without the Snap page, e.g. a virtual account with payment_type "bank_transfer"
+export function charge(parameter: CoreApiChargeParameter): Promise<MidtransTransaction> {
+  return MidtransInstance.getCoreApi().charge(parameter);
+}
+
+// Current status of a transaction, `id` is the order_id or the transaction_id
+export function getTransactionStatus(id: string): Promise<MidtransTransaction> {
+  return MidtransInstance.getCoreApi().transaction.status(id);
+}
+
+// Cancel a transaction before it is paid, or a card payment before its settlement
+export function cancelTransaction(id: string): Promise<MidtransTransaction> {
+  return MidtransInstance.getCoreApi().transaction.cancel(id);
+}
+
+// Refund a settled transaction, entirely unless `amount` is set
+export function refundTransaction(id: string, parameter: MidtransRefundParameter = {}): Promise<MidtransTransaction> {
+  return MidtransInstance.getCoreApi().transaction.refund(id, parameter);
+}
@@ -0,0 +1,73 @@
+import express from "express";
+import { AddressInfo } from "net";
+import * as CoreApi from "./coreAPI";
+import { createSnapTransaction } from "./snap";
+import { getMidtransErrorMessage, isMidtransError } from "./utils";
+
+const mockConfig = { midtrans: { serverKey: "SB-Mid-server-test", isProduction: false, apiUrl: "", snapUrl: "" } }
+jest.mock("$config/index", () => ({
+    getConfig: () => mockConfig
+}))
+
+// Local stub of the Midtrans HTTP API, records the requests it receives
+describe('test the midtrans clients against a stub of the API', ()=>{
+    const requests: { method: string, path: string, authorization?: string, body: any }[] = []
+
+    const app = express()
+    app.use(express.json())
+    app.use((req, res, next) => {
+        requests.push({ method: req.method, path: req.path, authorization: req.headers.authorization, body: req.body })
+        next()
+    })
+    app.post("/snap/v1/transactions", (req, res) => {
+        res.status(201).json({ token: "snap-token", redirect_url: `https://app.sandbox.midtrans.com/snap/v4/redirection/snap-token` })
+    })
+    app.get("/v2/:id/status", (req, res) => {
+        if (req.params.id === "unknown") return res.json({ status_code: "404", status_message: "Transaction doesn't exist." })
+        res.json({ status_code: "200", transaction_id: "trx-1", order_id: req.params.id, gross_amount: "10000.00", transaction_status: "settlement" })
+    })
+    app.post("/v2/:id/refund", (req, res) => {
+        res.json({ status_code: "200", transaction_id: "trx-1", order_id: req.params.id, gross_amount: "10000.00", transaction_status: "partial_refund", refund_amount: String(req.body.amount) })
+    })
+
+    const server = app.listen(0)
+    const baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`
+    mockConfig.midtrans.apiUrl = baseUrl
+    mockConfig.midtrans.snapUrl = `${baseUrl}/snap/v1/`
+
+    beforeEach(()=>{
+        requests.length = 0
+    })
+
+    afterAll(()=>{
+        server.close()
+    })
+
+    test('should create a snap transaction with the server key', async ()=>{
+        const transaction = await createSnapTransaction({ transaction_details: { order_id: "order-1", gross_amount: 10000 } })
+
+        expect(transaction.token).toBe("snap-token")
+        expect(requests).toEqual([{
+            method: "POST",
+            path: "/snap/v1/transactions",
+            authorization: `Basic ${Buffer.from("SB-Mid-server-test:").toString("base64")}`,
+            body: { transaction_details: { order_id: "order-1", gross_amount: 10000 } }
+        }])
+    })
+
+    test('should call the core api', async ()=>{
+        expect(await CoreApi.getTransactionStatus("order-1")).toMatchObject({ order_id: "order-1", transaction_status: "settlement" })
+
+        const refund = await CoreApi.refundTransaction("order-1", { amount: 5000, reason: "Damaged item" })
+        expect(refund).toMatchObject({ transaction_status: "partial_refund", refund_amount: "5000" })
+        expect(requests[1]).toMatchObject({ method: "POST", path: "/v2/order-1/refund", body: { amount: 5000, reason: "Damaged item" } })
+    })
+
+    test('should reject with the error answered by midtrans', async ()=>{
+        const error = await CoreApi.getTransactionStatus("unknown").catch((err) => err)
+
+        expect(isMidtransError(error)).toBe(true)
+        expect(error.httpStatusCode).toBe("404")
+        expect(getMidtransErrorMessage(error)).toBe("Transaction doesn't exist.")
+    })
+});
@@ -0,0 +1,53 @@
+/// <reference path="./midtrans-client.d.ts" />
+import { CoreApi, Snap } from "midtrans-client";
+import { getConfig } from "$config/index";
+
+/*
+  Clients of the Snap API (payment page, see snap.ts) and of the Core API (charge, status, cancel, refund, see coreAPI.ts),
+  built once from MIDTRANS_SERVER_KEY / MIDTRANS_CLIENT_KEY and MIDTRANS_IS_PRODUCTION.
+  MIDTRANS_API_URL and MIDTRANS_SNAP_URL replace the base URLs of Midtrans, to run against a local stub.
+*/
+class MidtransInstance {
+  private static snap?: Snap;
+  private static coreApi?: CoreApi;
+
+  static getServerKey(): string {
+    const { serverKey } = getConfig().midtrans;
+    if (!serverKey) throw new Error("Midtrans : MIDTRANS_SERVER_KEY is not set");
+
+    return serverKey;
+  }
+
+  private static options() {
+    const { isProduction, clientKey } = getConfig().midtrans;
+    return { isProduction, serverKey: MidtransInstance.getServerKey(), clientKey };
+  }
+
+  // The client reads its base URLs from its ApiConfig, point them to the configured ones
+  private static overrideBaseUrls(client: Snap | CoreApi): void {
+    const { apiUrl, snapUrl } = getConfig().midtrans;
+
+    if (apiUrl) client.apiConfig.getCoreApiBaseUrl = () => apiUrl.replace(/\/$/, "");
+    if (snapUrl) client.apiConfig.getSnapApiBaseUrl = () => snapUrl.replace(/\/$/, "");
+  }
+
+  static getSnap(): Snap {
+    if (!MidtransInstance.snap) {
+      MidtransInstance.snap = new Snap(MidtransInstance.options());
+      MidtransInstance.overrideBaseUrls(MidtransInstance.snap);
+    }
+
+    return MidtransInstance.snap;
+  }
+
+  static getCoreApi(): CoreApi {
+    if (!MidtransInstance.coreApi) {
+      MidtransInstance.coreApi = new CoreApi(MidtransInstance.options());
+      MidtransInstance.overrideBaseUrls(MidtransInstance.coreApi);
+    }
+
+    return MidtransInstance.coreApi;
+  }
+}
+
+export default MidtransInstance;
@@ -0,0 +1,108 @@
+// Fields follow the Midtrans API (snake_case), see https://docs.midtrans.com
+
+export const MIDTRANS_TRANSACTION_STATUSES = [
+  "authorize",
+  "capture",
+  "settlement",
+  "pending",
+  "deny",
+  "cancel",
+  "expire",
+  "failure",
+  "refund",
+  "partial_refund",
+  // The card holder disputed the payment with their bank
+  "chargeback",
+  "partial_chargeback",
+] as const;
+export type MidtransTransactionStatus = typeof MIDTRANS_TRANSACTION_STATUSES[number];
+
+export const MIDTRANS_FRAUD_STATUSES = ["accept", "challenge", "deny"] as const;
+export type MidtransFraudStatus = typeof MIDTRANS_FRAUD_STATUSES[number];
+
+export interface MidtransTransactionDetails {
+  order_id: string
+  // Sum of the item_details when they are sent
+  gross_amount: number
+}
+
+export interface MidtransItemDetail {
+  id?: string
+  name: string
+  price: number
+  quantity: number
+}
+
+export interface MidtransCustomerDetails {
+  first_name?: string
+  last_name?: string
+  email?: string
+  phone?: string
+}
+
+export interface SnapTransactionParameter {
+  transaction_details: MidtransTransactionDetails
+  item_details?: MidtransItemDetail[]
+  customer_details?: MidtransCustomerDetails
+  // e.g. ["gopay", "bank_transfer"], every enabled method when not set
+  enabled_payments?: string[]
+  expiry?: {
+    unit: "minute" | "hour" | "day"
+    duration: number
+  }
+}
+
+export interface SnapTransaction {
+  token: string
+  redirect_url: string
+}
+
+export interface CoreApiChargeParameter {
+  payment_type: string
+  transaction_details: MidtransTransactionDetails
+  item_details?: MidtransItemDetail[]
+  customer_details?: MidtransCustomerDetails
+  // Options of the payment type, e.g. bank_transfer: { bank: "bca" }
+  [paymentTypeOptions: string]: unknown
+}
+
+export interface MidtransRefundParameter {
+  // Unique per refund, sending the same key again does not refund twice
+  refund_key?: string
+  // Full refund when not set
+  amount?: number
+  reason?: string
+}
+
+/*
+  Response of charge / status / cancel / refund, and body of the HTTP notifications,
+  amounts are strings, e.g. "10000.00"
+*/
+export interface MidtransTransaction {
+  status_code: string
+  status_message?: string
+  transaction_id: string
+  order_id: string
+  gross_amount: string
+  currency?: string
+  payment_type?: string
+  transaction_status: MidtransTransactionStatus
+  fraud_status?: MidtransFraudStatus
+  transaction_time?: string
+  settlement_time?: string
+  // Notifications only, see isValidSignatureKey
+  signature_key?: string
+  // Total refunded, on refund and partial_refund
+  refund_amount?: string
+}
+
+/*
+  Body of a refused call, read by getMidtransErrorMessage, e.g.
+  { status_code: "404", status_message: "Transaction doesn't exist." }
+*/
+export interface MidtransErrorResponse {
+  status_code?: string
+  status_message?: string
+  // Validation errors of a charge, e.g. ["transaction_details.gross_amount is required"]
+  error_messages?: string[]
+}
@@ -0,0 +1,50 @@
+// midtrans-client ships without types, only what pkg/midtrans uses is declared
+declare module "midtrans-client" {
+  import {
+    CoreApiChargeParameter,
+    MidtransErrorResponse,
+    MidtransRefundParameter,
+    MidtransTransaction,
+    SnapTransaction,
+    SnapTransactionParameter,
+  } from "$pkg/midtrans/interfaces";
+
+  interface MidtransClientOptions {
+    isProduction: boolean
+    serverKey: string
+    clientKey?: string
+  }
+
+  class ApiConfig {
+    getCoreApiBaseUrl(): string
+    getSnapApiBaseUrl(): string
+  }
+
+  // Resolves with the JSON body of Midtrans, rejects with a MidtransError
+  class Transaction {
+    status(transactionId: string): Promise<MidtransTransaction>
+    cancel(transactionId: string): Promise<MidtransTransaction>
+    refund(transactionId: string, parameter?: MidtransRefundParameter): Promise<MidtransTransaction>
+  }
+
+  export class Snap {
+    constructor(options: MidtransClientOptions)
+    apiConfig: ApiConfig
+    transaction: Transaction
+    createTransaction(parameter: SnapTransactionParameter): Promise<SnapTransaction>
+  }
+
+  export class CoreApi {
+    constructor(options: MidtransClientOptions)
+    apiConfig: ApiConfig
+    transaction: Transaction
+    charge(parameter: CoreApiChargeParameter): Promise<MidtransTransaction>
+  }
+
+  export class MidtransError extends Error {
+    // HTTP status, or `status_code` (a string) when Midtrans answers 200 with an error body, null when it could not be reached
+    httpStatusCode: number | string | null
+    // Body of Midtrans, null when it could not be reached, undefined when the parameters could not be serialized
+    ApiResponse?: MidtransErrorResponse | null
+  }
+}
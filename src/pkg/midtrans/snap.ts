@@ -0,0 +1,11 @@
+import MidtransInstance from "./index";
+import { SnapTransaction, SnapTransactionParameter } from "./interfaces";
+
+/**
+ * Create a Snap transaction, the customer pays on the Snap page (redirect_url) or the Snap popup (token)
+ * @param parameter - order_id must be unique, Midtrans refuses an order_id it already knows
+ * @throws MidtransError when Midtrans refuses the transaction or cannot be reached
+ */
+export function createSnapTransaction(parameter: SnapTransactionParameter): Promise<SnapTransaction> {
+  return MidtransInstance.getSnap().createTransaction(parameter);
+}
@@ -0,0 +1,33 @@
+/// <reference path="./midtrans-client.d.ts" />
+import { createHash, timingSafeEqual } from "crypto";
+import { MidtransError } from "midtrans-client";
+import { MidtransTransaction } from "./interfaces";
+
+// SHA512(order_id + status_code + gross_amount + server key), as computed by Midtrans
+export function createSignatureKey(orderId: string, statusCode: string, grossAmount: string, serverKey: string): string {
+  return createHash("sha512").update(`${orderId}${statusCode}${grossAmount}${serverKey}`).digest("hex");
+}
+
+/**
+ * Check that a notification comes from Midtrans, anyone can call the notification URL
+ * @param notification - body of the HTTP notification
+ * @param serverKey    - MIDTRANS_SERVER_KEY
+ */
+export function isValidSignatureKey(notification: Pick<MidtransTransaction, "order_id" | "status_code" | "gross_amount" | "signature_key">, serverKey: string): boolean {
+  if (!notification.signature_key) return false;
+
+  const expected = Buffer.from(createSignatureKey(notification.order_id, notification.status_code, notification.gross_amount, serverKey));
+  const received = Buffer.from(notification.signature_key);
+
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+// Rejection of the client when Midtrans answered an error or could not be reached
+export function isMidtransError(err: unknown): err is MidtransError {
+  return err instanceof MidtransError;
+}
+
+// Message of Midtrans for a failed call, e.g. "Transaction doesn't exist."
+export function getMidtransErrorMessage(err: MidtransError): string {
+  return err.ApiResponse?.status_message ?? err.ApiResponse?.error_messages?.join(", ") ?? err.message;
+}
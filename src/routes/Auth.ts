@@ -0,0 +1,46 @@
+import { Router } from "express";
+import { UserResponseSchema } from "$validations/UserValidations"
+import { routeDoc } from "./helpers/OpenApi";
+import * as AuthController from "$controllers/rest/AuthController"
+import * as AuthValidations from "$validations/AuthValidations"
+import authMiddleware from "$middlewares/authMiddleware";
+
+const AuthRoutes = Router({mergeParams:true})
+
+AuthRoutes.post("/register",
+    routeDoc({ summary: "Register a user", response: AuthValidations.UserAuthResponseSchema }),
+    AuthValidations.validateRegisterDTO,
+    AuthController.register
+)
+
+AuthRoutes.post("/login",
+    routeDoc({ summary: "Log in", response: AuthValidations.UserAuthResponseSchema, status: 200 }),
+    AuthValidations.validateLoginDTO,
+    AuthController.login
+)
+
+AuthRoutes.post("/refresh",
+    routeDoc({ summary: "Rotate the refresh token", response: AuthValidations.UserAuthResponseSchema, status: 200 }),
+    AuthValidations.validateRefreshTokenDTO,
+    AuthController.refresh
+)
+
+AuthRoutes.post("/logout",
+    routeDoc({ summary: "Revoke the session of a refresh token", status: 200 }),
+    AuthValidations.validateRefreshTokenDTO,
+    AuthController.logout
+)
+
+AuthRoutes.post("/logout-all",
+    routeDoc({ summary: "Revoke every session of the current user", status: 200 }),
+    authMiddleware,
+    AuthController.logoutAllDevices
+)
+
+AuthRoutes.get("/me",
+    routeDoc({ summary: "Current user", response: UserResponseSchema }),
+    authMiddleware,
+    AuthController.me
+)
+
+export default AuthRoutes
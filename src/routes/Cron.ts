@@ -0,0 +1,33 @@
+import { Router } from "express";
+import * as CronController from "$controllers/rest/CronController"
+import * as CronValidations from "$validations/CronValidations"
+import authMiddleware from "$middlewares/authMiddleware";
+import { can } from "$middlewares/authorizationMiddleware";
+import { routeDoc } from "./helpers/OpenApi";
+
+const CronRoutes = Router({mergeParams:true})
+
+CronRoutes.get("/",
+    routeDoc({ summary: "List the cron jobs with their last run", response: CronValidations.CronJobResponseSchema }),
+    authMiddleware,
+    can("cron:read"),
+    CronController.getJobs
+)
+
+CronRoutes.get("/runs",
+    routeDoc({ summary: "Run history of the cron jobs", response: CronValidations.CronRunResponseSchema }),
+    authMiddleware,
+    can("cron:read"),
+    CronValidations.validateRunsFilteringQuery,
+    CronController.getRuns
+)
+
+// Runs on the instance handling the request, the lock still prevents overlapping with a scheduled run
+CronRoutes.post("/:name/run",
+    routeDoc({ summary: "Run a cron job now", response: CronValidations.CronRunResponseSchema, status: 202 }),
+    authMiddleware,
+    can("cron:run"),
+    CronController.runNow
+)
+
+export default CronRoutes
@@ -0,0 +1,42 @@
+import express, { Router } from "express";
+import { AddressInfo } from "net";
+import { createDocsRoutes } from "./Docs";
+
+jest.mock("$utils/prisma.utils", () => ({
+    prisma: {}
+}))
+
+describe('test createDocsRoutes', ()=>{
+    const router = Router()
+    router.get("/ping", (req, res) => res.end())
+
+    const app = express()
+    app.use("/api", createDocsRoutes(router))
+
+    const server = app.listen(0)
+    const baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`
+
+    afterAll(()=>{
+        server.closeAllConnections()
+        server.close()
+    })
+
+    test('should serve Swagger UI with its own assets, without a CDN', async ()=>{
+        const page = await (await fetch(`${baseUrl}/api/docs`)).text()
+
+        expect(page).toContain('href="/api/docs/assets/swagger-ui.css"')
+        expect(page).toContain('src="/api/docs/assets/swagger-ui-bundle.js"')
+        expect(page).toContain('url: "/api/openapi.json"')
+        expect(page).not.toContain('https://')
+
+        for (const asset of ["swagger-ui.css", "swagger-ui-bundle.js"]) {
+            expect((await fetch(`${baseUrl}/api/docs/assets/${asset}`)).status).toBe(200)
+        }
+    })
+
+    test('should serve the OpenAPI document of the router', async ()=>{
+        const document = await (await fetch(`${baseUrl}/api/openapi.json`)).json()
+
+        expect(Object.keys(document.paths)).toEqual(["/ping"])
+    })
+});
@@ -0,0 +1,51 @@
+import express, { Request, Response, Router } from "express";
+import path from "path";
+import { buildOpenApiDocument } from "./helpers/OpenApi";
+
+// Swagger UI is served from node_modules, the docs don't depend on a CDN being reachable
+const SWAGGER_UI_DIR = path.dirname(require.resolve("swagger-ui-dist/package.json"));
+
+function renderSwaggerUi(assetsUrl: string, specUrl: string) {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>API Documentation</title>
+  <link rel="stylesheet" href="${assetsUrl}/swagger-ui.css" />
+</head>
+<body>
+  <div id="swagger-ui"></div>
+  <script src="${assetsUrl}/swagger-ui-bundle.js"></script>
+  <script>
+    window.ui = SwaggerUIBundle({ url: "${specUrl}", dom_id: "#swagger-ui", persistAuthorization: true });
+  </script>
+</body>
+</html>`;
+}
+
+/**
+ * Serve the OpenAPI document of a router at /openapi.json and Swagger UI at /docs,
+ * only mounted in dev (see server/rest.ts), the document lists every route
+ * @param router - router to document, e.g. the router of routes/index.ts
+ */
+export function createDocsRoutes(router: Router) {
+  const DocsRoutes = Router({mergeParams:true})
+
+  // Routes are registered once at startup, so the document is only built on the first request
+  let document: ReturnType<typeof buildOpenApiDocument> | undefined
+
+  DocsRoutes.get("/openapi.json", (req: Request, res: Response) => {
+    document ??= buildOpenApiDocument(router, {
+      title: "API Documentation",
+      version: process.env.npm_package_version ?? "1.0.0",
+    })
+    res.json(document)
+  })
+
+  DocsRoutes.get("/docs", (req: Request, res: Response) => {
+    res.type("html").send(renderSwaggerUi(`${req.baseUrl}/docs/assets`, `${req.baseUrl}/openapi.json`))
+  })
+  DocsRoutes.use("/docs/assets", express.static(SWAGGER_UI_DIR, { index: false }))
+
+  return DocsRoutes
+}
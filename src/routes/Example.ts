@@ -1,9 +1,11 @@
 import { Router } from "express";
+import { routeDoc } from "./helpers/OpenApi";
 import * as ExampleController from "$controllers/rest/ExampleController"
 
 const ExampleRoutes = Router({mergeParams:true}) // mergeParams = true -> to enable parsing query params
 
 ExampleRoutes.get("/",
+    routeDoc({ summary: "Example endpoint" }),
     ExampleController.get
 )
 
@@ -0,0 +1,18 @@
+import { Router } from "express";
+import * as HealthController from "$controllers/rest/HealthController"
+import { routeDoc } from "./helpers/OpenApi";
+
+// Probes of load balancers and orchestrators, no authentication
+const HealthRoutes = Router({mergeParams:true})
+
+HealthRoutes.get("/live",
+    routeDoc({ summary: "Liveness probe" }),
+    HealthController.live
+)
+
+HealthRoutes.get("/ready",
+    routeDoc({ summary: "Readiness probe, checks the database and every registered dependency" }),
+    HealthController.ready
+)
+
+export default HealthRoutes
@@ -0,0 +1,15 @@
+import { Router } from "express";
+import * as PaymentController from "$controllers/rest/PaymentController"
+import * as PaymentValidations from "$validations/PaymentValidations"
+import { routeDoc } from "./helpers/OpenApi";
+
+const PaymentRoutes = Router({mergeParams:true})
+
+// Called by Midtrans, set it as the Payment Notification URL of the Midtrans dashboard. No auth, the signature key is verified instead
+PaymentRoutes.post("/midtrans/notification",
+    routeDoc({ summary: "Payment notification of Midtrans", response: PaymentValidations.PaymentNotificationResultSchema, status: 200 }),
+    PaymentValidations.validateMidtransNotification,
+    PaymentController.midtransNotification
+)
+
+export default PaymentRoutes
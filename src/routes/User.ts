@@ -0,0 +1,39 @@
+import { Router } from "express";
+import { routeDoc } from "./helpers/OpenApi";
+import * as UserController from "$controllers/rest/UserController"
+import * as UserValidations from "$validations/UserValidations"
+import authMiddleware from "$middlewares/authMiddleware";
+import { can } from "$middlewares/authorizationMiddleware";
+
+const UserRoutes = Router({mergeParams:true})
+
+UserRoutes.get("/",
+    routeDoc({ summary: "List users", response: UserValidations.UserResponseSchema }),
+    authMiddleware,
+    can("user:read"),
+    UserValidations.validateFilteringQuery,
+    UserController.getAll
+)
+
+// Ownership for the routes below is checked in UserService
+UserRoutes.get("/:id",
+    routeDoc({ summary: "Get a user", response: UserValidations.UserResponseSchema }),
+    authMiddleware,
+    UserController.getById
+)
+
+UserRoutes.put("/:id",
+    routeDoc({ summary: "Update a user", response: UserValidations.UserResponseSchema }),
+    authMiddleware,
+    UserValidations.validateUpdateDTO,
+    UserController.update
+)
+
+UserRoutes.delete("/:id",
+    routeDoc({ summary: "Delete a user" }),
+    authMiddleware,
+    can("user:delete"),
+    UserController.deleteUser
+)
+
+export default UserRoutes
@@ -0,0 +1,73 @@
+import { Router } from "express";
+import authMiddleware from "$middlewares/authMiddleware";
+import { validateFilteringQueryV2 } from "$validations/FilteringQueryValidations";
+import { v, validate } from "$validations/schema";
+import { wrapAsyncHandlers } from "$utils/express.utils";
+import { buildOpenApiDocument, routeDoc } from "./OpenApi";
+
+jest.mock("$utils/prisma.utils", () => ({
+    prisma: {}
+}))
+
+describe('test buildOpenApiDocument', ()=>{
+    const ItemSchema = { id: v.string(), quantity: v.number().int().min(1) }
+
+    const ItemRoutes = Router({mergeParams:true})
+    ItemRoutes.get("/",
+        routeDoc({ summary: "List items", response: ItemSchema }),
+        validateFilteringQueryV2({ filterable: ["status"] }),
+        (req, res) => res.end()
+    )
+    ItemRoutes.post("/",
+        routeDoc({ summary: "Add an item", response: ItemSchema }),
+        authMiddleware,
+        validate({ body: { quantity: v.number().int().min(1), note: v.string().optional() } }),
+        (req, res) => res.end()
+    )
+
+    const router = Router()
+    router.get("/ping", (req, res) => res.end())
+    router.use("/orders/:orderId/items", ItemRoutes)
+    router.all("*", (req, res) => res.end())
+    wrapAsyncHandlers(router)
+
+    const document = buildOpenApiDocument(router, { title: "Test", version: "1.0.0" })
+
+    test('should document nested routes with their mount params and skip the catch-all', ()=>{
+        expect(Object.keys(document.paths).sort()).toEqual(["/orders/{orderId}/items", "/ping"])
+        expect(document.paths["/orders/{orderId}/items"].get.parameters[0]).toEqual({
+            name: "orderId",
+            in: "path",
+            required: true,
+            schema: { type: "string" }
+        })
+    })
+
+    test('should read auth and the request body from the middlewares', ()=>{
+        const operation = document.paths["/orders/{orderId}/items"].post
+
+        expect(operation.summary).toBe("Add an item")
+        expect(operation.security).toEqual([{ bearerAuth: [] }])
+        expect(operation.requestBody.content["application/json"].schema).toEqual({
+            type: "object",
+            properties: {
+                quantity: { type: "integer", minimum: 1 },
+                note: { type: "string" }
+            },
+            required: ["quantity"]
+        })
+        expect(Object.keys(operation.responses)).toEqual(expect.arrayContaining(["201", "401", "403", "422"]))
+    })
+
+    test('should document the filtering query and the paged list of list routes', ()=>{
+        const operation = document.paths["/orders/{orderId}/items"].get
+
+        expect(operation.security).toBeUndefined()
+        expect(operation.parameters).toContainEqual({ $ref: "#/components/parameters/filters" })
+        expect(operation.responses["400"]).toBeDefined()
+
+        const content = operation.responses["200"].content["application/json"].schema.allOf[1].properties.content
+        expect(content.allOf[0]).toEqual({ $ref: "#/components/schemas/PagedList" })
+        expect(content.allOf[1].properties.entries.items.properties.quantity).toEqual({ type: "integer", minimum: 1 })
+    })
+});
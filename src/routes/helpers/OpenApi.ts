@@ -0,0 +1,253 @@
+import { NextFunction, Request, Response } from "express";
+import { FILTER_OPERATORS } from "$entities/Query";
+import { OpenApiInfo, RouteDoc } from "$entities/OpenApi";
+import { getFilteringPolicy } from "$validations/FilteringQueryValidations";
+import { Schema, Validator, getRequestSchemas, schemaToOpenApi } from "$validations/schema";
+import { unwrapHandler } from "$utils/express.utils";
+import authMiddleware from "$middlewares/authMiddleware";
+
+const ROUTE_DOC = Symbol("routeDoc");
+
+/**
+ * Document a route, put it first in the route's handlers :
+ *
+ *   UserRoutes.get("/:id",
+ *       routeDoc({ summary: "Get a user", response: UserResponseSchema }),
+ *       authMiddleware,
+ *       UserController.getById
+ *   )
+ *
+ * @param doc - summary, response schema, see `RouteDoc`
+ */
+export function routeDoc(doc: RouteDoc) {
+  const middleware = (req: Request, res: Response, next: NextFunction) => next();
+  return Object.assign(middleware, { [ROUTE_DOC]: doc });
+}
+
+const FILTERING_QUERY_PARAMETERS = ["page", "rows", "cursor", "cursorDirection", "orderBy", "orderKey", "orderRule", "filters", "searchFilters", "rangedFilters"];
+
+const ERROR_RESPONSES: Record<number, string> = {
+  400: "Invalid filtering query",
+  401: "Missing, invalid or revoked token",
+  403: "Not allowed",
+  404: "Data not found",
+  422: "Validation error",
+  500: "Internal server error",
+};
+
+// Shared parts of the document, referenced by every operation
+function buildComponents() {
+  const jsonQuery = (description: string, example: unknown) => ({
+    in: "query",
+    required: false,
+    description: `${description}, as JSON or with bracket notation`,
+    schema: { type: "string" },
+    example: JSON.stringify(example),
+  });
+
+  return {
+    securitySchemes: {
+      bearerAuth: { type: "http", scheme: "bearer", bearerFormat: "JWT" },
+    },
+    parameters: {
+      page: { name: "page", in: "query", required: false, schema: { type: "integer", minimum: 1, default: 1 } },
+      rows: { name: "rows", in: "query", required: false, schema: { type: "integer", minimum: 1, default: 10 } },
+      cursor: { name: "cursor", in: "query", required: false, description: "`nextCursor` / `prevCursor` of a CursorPagedList", schema: { type: "string" } },
+      cursorDirection: { name: "cursorDirection", in: "query", required: false, schema: { type: "string", enum: ["next", "previous"] } },
+      orderBy: { name: "orderBy", in: "query", required: false, description: "List of OrderSpec as JSON, or the short form `status,-customer.name:last`", schema: { type: "string" } },
+      orderKey: { name: "orderKey", in: "query", required: false, description: "Single column sort, `orderBy` takes precedence", schema: { type: "string" } },
+      orderRule: { name: "orderRule", in: "query", required: false, schema: { type: "string", enum: ["asc", "desc"] } },
+      filters: { name: "filters", ...jsonQuery(`Values or operator filters (${FILTER_OPERATORS.join(", ")}) per key`, { status: ["PAID", "SENT"], total: { gte: 100 } }) },
+      searchFilters: { name: "searchFilters", ...jsonQuery("Partial match per key, multiple keys are OR-ed", { name: "jo" }) },
+      rangedFilters: { name: "rangedFilters", ...jsonQuery("List of RangedFilter", [{ key: "createdAt", start: "2024-01-01", end: "2024-01-31" }]) },
+    },
+    schemas: {
+      ErrorStructure: {
+        type: "object",
+        properties: { field: { type: "string" }, message: { type: "string" } },
+        required: ["field", "message"],
+      },
+      ResponseEnvelope: {
+        type: "object",
+        properties: {
+          content: {},
+          message: { type: "string" },
+          errors: { type: "array", items: { oneOf: [{ $ref: "#/components/schemas/ErrorStructure" }, { type: "string" }] } },
+          errorCode: { type: "string", description: "Stable machine-readable code, only on errors" },
+        },
+        required: ["content", "message", "errors"],
+      },
+      OrderSpec: {
+        type: "object",
+        properties: {
+          key: { type: "string" },
+          rule: { type: "string", enum: ["asc", "desc"] },
+          nulls: { type: "string", enum: ["first", "last"] },
+        },
+        required: ["key"],
+      },
+      RangedFilter: {
+        type: "object",
+        properties: { key: { type: "string" }, start: {}, end: {} },
+        required: ["key", "start", "end"],
+      },
+      FilteringQueryV2: {
+        type: "object",
+        properties: {
+          page: { type: "integer" },
+          rows: { type: "integer" },
+          cursor: { type: "string" },
+          cursorDirection: { type: "string", enum: ["next", "previous"] },
+          orderBy: { type: "array", items: { $ref: "#/components/schemas/OrderSpec" } },
+          orderKey: { type: "string" },
+          orderRule: { type: "string", enum: ["asc", "desc"] },
+          filters: { type: "object", additionalProperties: true },
+          searchFilters: { type: "object", additionalProperties: true },
+          rangedFilters: { type: "array", items: { $ref: "#/components/schemas/RangedFilter" } },
+        },
+      },
+      PagedList: {
+        type: "object",
+        properties: {
+          entries: { type: "array", items: {} },
+          totalData: { type: "integer" },
+          totalPage: { type: "integer" },
+          page: { type: "integer" },
+          rows: { type: "integer" },
+          hasNext: { type: "boolean" },
+        },
+        required: ["entries", "totalData", "totalPage", "page", "rows", "hasNext"],
+      },
+      CursorPagedList: {
+        type: "object",
+        properties: {
+          entries: { type: "array", items: {} },
+          nextCursor: { type: "string", nullable: true },
+          prevCursor: { type: "string", nullable: true },
+        },
+        required: ["entries", "nextCursor", "prevCursor"],
+      },
+    },
+  };
+}
+
+function toOpenApiSchema(schema: Schema<any> | Validator<any>): Record<string, any> {
+  return schema instanceof Validator ? schema.toOpenApi() : schemaToOpenApi(schema);
+}
+
+// Express 4 keeps the mount path of a router only as a regexp, e.g. /^\/orders\/(?:([^\/]+?))\/items\/?(?=\/|$)/i
+function getMountPath(layer: any): string {
+  if (layer.regexp?.fast_slash) return "";
+
+  const keys: { name: string }[] = layer.keys ?? [];
+  let keyIndex = 0;
+
+  return String(layer.regexp?.source ?? "")
+    .replace(/^\^/, "")
+    .replace(/\\\/\?\(\?=\\\/\|\$\)$/, "")
+    .replace(/\(\?:\(\[\^\\\/\]\+\?\)\)/g, () => `:${keys[keyIndex++]?.name}`)
+    .replace(/\\\//g, "/");
+}
+
+// "/users/:id" -> "/users/{id}"
+function toOpenApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, "{$1}");
+}
+
+function buildOperation(method: string, path: string, handlers: any[]) {
+  const doc: RouteDoc | undefined = handlers.map((handler) => handler[ROUTE_DOC]).find(Boolean);
+  const requestSchemas = handlers.map(getRequestSchemas).find(Boolean);
+  const policy = handlers.map(getFilteringPolicy).find(Boolean);
+  const auth = doc?.auth ?? handlers.includes(authMiddleware);
+  const paged = doc?.paged ?? Boolean(policy);
+
+  const pathParameters = Array.from(path.matchAll(/:(\w+)/g), (match) => ({
+    name: match[1],
+    in: "path",
+    required: true,
+    schema: requestSchemas?.params?.[match[1]]?.toOpenApi() ?? { type: "string" },
+  }));
+  const queryParameters = requestSchemas?.query
+    ? Object.entries(requestSchemas.query).map(([name, validator]: [string, any]) => ({
+        name,
+        in: "query",
+        required: validator.isRequired(),
+        schema: validator.toOpenApi(),
+      }))
+    : [];
+  const filteringParameters = policy ? FILTERING_QUERY_PARAMETERS.map((name) => ({ $ref: `#/components/parameters/${name}` })) : [];
+
+  const itemSchema = doc?.response ? toOpenApiSchema(doc.response) : {};
+  const contentSchema = paged
+    ? { allOf: [{ $ref: "#/components/schemas/PagedList" }, { type: "object", properties: { entries: { type: "array", items: itemSchema } } }] }
+    : itemSchema;
+
+  const errorStatuses = [
+    ...(policy ? [400] : []),
+    ...(auth ? [401, 403] : []),
+    ...(pathParameters.length > 0 ? [404] : []),
+    ...(requestSchemas ? [422] : []),
+    500,
+  ];
+
+  return {
+    tags: doc?.tags ?? [path.split("/")[1] || "default"],
+    summary: doc?.summary ?? `${method.toUpperCase()} ${path}`,
+    ...(doc?.description ? { description: doc.description } : {}),
+    ...(auth ? { security: [{ bearerAuth: [] }] } : {}),
+    parameters: [...pathParameters, ...queryParameters, ...filteringParameters],
+    ...(requestSchemas?.body
+      ? { requestBody: { required: true, content: { "application/json": { schema: schemaToOpenApi(requestSchemas.body) } } } }
+      : {}),
+    responses: {
+      [doc?.status ?? (method === "post" ? 201 : 200)]: {
+        description: "Success",
+        content: {
+          "application/json": {
+            schema: { allOf: [{ $ref: "#/components/schemas/ResponseEnvelope" }, { type: "object", properties: { content: contentSchema } }] },
+          },
+        },
+      },
+      ...Object.fromEntries(errorStatuses.map((status) => [status, {
+        description: ERROR_RESPONSES[status],
+        content: { "application/json": { schema: { $ref: "#/components/schemas/ResponseEnvelope" } } },
+      }])),
+    },
+    ...(policy ? { "x-filtering-policy": policy } : {}),
+  };
+}
+
+function collectPaths(router: any, prefix: string, paths: Record<string, any>) {
+  for (const layer of router?.stack ?? []) {
+    if (layer.route) {
+      // "/users" + "/" -> "/users"
+      const path = `${prefix}${layer.route.path}`.replace(/(.)\/$/, "$1");
+      if (path.includes("*")) continue;
+
+      const handlers = layer.route.stack.map((routeLayer: any) => unwrapHandler(routeLayer.handle));
+      const openApiPath = toOpenApiPath(path);
+      for (const method of Object.keys(layer.route.methods).filter((method) => method !== "_all")) {
+        paths[openApiPath] = { ...paths[openApiPath], [method]: buildOperation(method, path, handlers) };
+      }
+    } else if (Array.isArray(layer.handle?.stack)) {
+      collectPaths(layer.handle, `${prefix}${getMountPath(layer)}`, paths);
+    }
+  }
+}
+
+/**
+ * Generate the OpenAPI 3 document of every route registered on a router, nested routers included
+ * @param router - express router, e.g. the router of routes/index.ts
+ * @param info   - title and version of the API
+ */
+export function buildOpenApiDocument(router: any, info: OpenApiInfo) {
+  const paths: Record<string, any> = {};
+  collectPaths(router, "", paths);
+
+  return {
+    openapi: "3.0.3",
+    info,
+    paths,
+    components: buildComponents(),
+  };
+}
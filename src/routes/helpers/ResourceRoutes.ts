@@ -0,0 +1,86 @@
+import { RequestHandler, Router } from "express";
+import { ResourceAccessRule, ResourceAction, ResourceConfig } from "$entities/Resource";
+import { createResourceService } from "$services/helpers/ResourceService";
+import { createResourceController } from "$controllers/helpers/ResourceController";
+import { validateFilteringQueryV2 } from "$validations/FilteringQueryValidations";
+import { validate } from "$validations/schema";
+import authMiddleware from "$middlewares/authMiddleware";
+import { authorize, can } from "$middlewares/authorizationMiddleware";
+import { routeDoc } from "./OpenApi";
+
+function accessMiddlewares(rule: ResourceAccessRule = {}): RequestHandler[] {
+    if (rule === "public" || rule === false) return []
+
+    const middlewares: RequestHandler[] = [authMiddleware]
+    if (rule.roles && rule.roles.length > 0) middlewares.push(authorize(...rule.roles))
+    if (rule.permissions && rule.permissions.length > 0) middlewares.push(can(...rule.permissions))
+
+    return middlewares
+}
+
+/**
+ * Build the routes of a declarative CRUD resource :
+ *   GET    /      paged list, see `FilteringQueryV2`
+ *   GET    /:id   detail
+ *   POST   /      create, when `createSchema` is given
+ *   PUT    /:id   update, when `updateSchema` is given
+ *   DELETE /:id   delete
+ * register the router like a hand-written one, in `routes/registry.ts` and `routes/index.ts`
+ * @param config - resource configuration, see `ResourceConfig`
+ */
+export function buildResourceRoutes<T, C = Partial<T>, U = Partial<T>>(config: ResourceConfig<T, C, U>): Router {
+    const name = config.name ?? config.model
+    const service = createResourceService(config)
+    const controller = createResourceController(service, name, { maxRows: config.maxRows })
+
+    const isEnabled = (action: ResourceAction) => config.access?.[action] !== false
+    const access = (action: ResourceAction) => accessMiddlewares(config.access?.[action])
+    const doc = (summary: string) => routeDoc({ summary: `${summary} ${name}`, response: config.responseSchema })
+
+    const ResourceRoutes = Router({mergeParams:true})
+
+    if (isEnabled("list")) {
+        ResourceRoutes.get("/",
+            doc("List"),
+            ...access("list"),
+            validateFilteringQueryV2(config.policy ?? {}, { maxRows: config.maxRows }),
+            controller.getAll
+        )
+    }
+
+    if (isEnabled("get")) {
+        ResourceRoutes.get("/:id",
+            doc("Get a"),
+            ...access("get"),
+            controller.getById
+        )
+    }
+
+    if (isEnabled("create") && config.createSchema) {
+        ResourceRoutes.post("/",
+            doc("Create a"),
+            ...access("create"),
+            validate({ body: config.createSchema }),
+            controller.create
+        )
+    }
+
+    if (isEnabled("update") && config.updateSchema) {
+        ResourceRoutes.put("/:id",
+            doc("Update a"),
+            ...access("update"),
+            validate({ body: config.updateSchema }),
+            controller.update
+        )
+    }
+
+    if (isEnabled("delete")) {
+        ResourceRoutes.delete("/:id",
+            doc("Delete a"),
+            ...access("delete"),
+            controller.delete
+        )
+    }
+
+    return ResourceRoutes
+}
@@ -20,6 +20,11 @@ router.get("/ping", (req: Request, res: Response) => {
 
 
 router.use("/example", RoutesRegistry.ExampleRoutes)
+router.use("/auth", RoutesRegistry.AuthRoutes)
+router.use("/users", RoutesRegistry.UserRoutes)
+router.use("/health", RoutesRegistry.HealthRoutes)
+router.use("/cron-jobs", RoutesRegistry.CronRoutes)
+router.use("/payments", RoutesRegistry.PaymentRoutes)
 
 
 router.all("*", (req: Request, res: Response) => {
@@ -1,7 +1,17 @@
 import ExampleRoutes from "./Example";
+import AuthRoutes from "./Auth";
+import UserRoutes from "./User";
+import HealthRoutes from "./Health";
+import CronRoutes from "./Cron";
+import PaymentRoutes from "./Payment";
 
 const RoutesRegistry = {
-    ExampleRoutes
+    ExampleRoutes,
+    AuthRoutes,
+    UserRoutes,
+    HealthRoutes,
+    CronRoutes,
+    PaymentRoutes
 };
 
 export default RoutesRegistry;
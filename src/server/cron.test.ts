@@ -0,0 +1,28 @@
+import createCronServer, { validateCronJobs } from "./cron";
+
+jest.mock("$utils/prisma.utils", () => ({
+    prisma: {}
+}))
+
+describe('test validateCronJobs', ()=>{
+    const handler = () => {}
+
+    test('should accept the registry', ()=>{
+        expect(validateCronJobs([{ name: 'report', schedule: '0 3 * * *', handler }])).toEqual([])
+    })
+
+    test('should list every invalid job and refuse to start', ()=>{
+        const jobs = [
+            { name: 'report', schedule: 'every day', handler },
+            { name: 'report', schedule: '0 3 * * *', timezone: 'Mars/Olympus', timeoutMs: 0, handler }
+        ]
+
+        expect(validateCronJobs(jobs)).toEqual([
+            'report : invalid schedule "every day"',
+            'report : duplicated name',
+            'report : invalid timezone "Mars/Olympus"',
+            'report : timeoutMs must be positive'
+        ])
+        expect(() => createCronServer(jobs)).toThrow('Invalid cron jobs')
+    })
+});
@@ -0,0 +1,77 @@
+import cron, { ScheduledTask } from "node-cron";
+import { CronJob } from "$entities/Cron";
+import CronJobs from "$jobs/registry";
+import * as CronService from "$services/CronService";
+import Logger from "$pkg/logger";
+
+export interface CronServer {
+  jobs: CronJob[]
+  start: () => void
+  // Stop scheduling and wait for the running jobs
+  stop: () => Promise<void>
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Every problem of the registry, so a misconfigured job stops the app at startup instead of never running
+export function validateCronJobs(jobs: CronJob[]): string[] {
+  const errors: string[] = [];
+  const names = new Set<string>();
+
+  for (const job of jobs) {
+    if (names.has(job.name)) errors.push(`${job.name} : duplicated name`);
+    names.add(job.name);
+
+    if (!cron.validate(job.schedule)) errors.push(`${job.name} : invalid schedule "${job.schedule}"`);
+    if (!isValidTimezone(CronService.getTimezone(job))) errors.push(`${job.name} : invalid timezone "${job.timezone}"`);
+    if (CronService.getTimeoutMs(job) <= 0) errors.push(`${job.name} : timeoutMs must be positive`);
+  }
+
+  return errors;
+}
+
+export default function createCronServer(jobs: CronJob[] = CronJobs): CronServer {
+  const errors = validateCronJobs(jobs);
+  if (errors.length > 0) throw new Error(`Invalid cron jobs :\n${errors.join("\n")}`);
+
+  const running = new Set<Promise<unknown>>();
+
+  const tick = async (job: CronJob) => {
+    const started = await CronService.startJobRun(job, "SCHEDULE");
+
+    if (!started.status) {
+      // Another instance runs it, or the previous run is not finished yet
+      if (started.err?.errorCode === "CRON_JOB_ALREADY_RUNNING") Logger.info(`Cron : ${job.name} skipped, already running`);
+      return;
+    }
+
+    const { finished } = started.data as CronService.StartedCronRun;
+    running.add(finished);
+    await finished;
+    running.delete(finished);
+  };
+
+  const tasks: ScheduledTask[] = jobs.map((job) =>
+    cron.schedule(job.schedule, () => void tick(job), {
+      scheduled: false,
+      timezone: CronService.getTimezone(job),
+      name: job.name,
+    })
+  );
+
+  return {
+    jobs,
+    start: () => tasks.forEach((task) => task.start()),
+    stop: async () => {
+      tasks.forEach((task) => task.stop());
+      await Promise.all(running);
+    },
+  };
+}
@@ -1,7 +1,9 @@
 import createRestServer from './rest';
+import createCronServer from './cron';
 
 const server = {
-  restServer: createRestServer
+  restServer: createRestServer,
+  cronServer: createCronServer
 }
 
 export default server
\ No newline at end of file
@@ -1,21 +1,34 @@
 import express from "express";
 import routes from "$routes/index";
+import { createDocsRoutes } from "$routes/Docs";
 import cors from "cors";
 import morganMiddleware from "$middlewares/morganMiddleware";
+import requestIdMiddleware from "$middlewares/requestIdMiddleware";
+import errorMiddleware from "$middlewares/errorMiddleware";
+import { wrapAsyncHandlers } from "$utils/express.utils";
+import { getConfig } from "$config/index";
 
 export default function createRestServer() {
-  let allowedOrigins:string[] = ["*"]
+  const config = getConfig()
   let corsOptions:cors.CorsOptions = {}
-  if(process.env.ENVIRONMENT != "dev"){
-    allowedOrigins = process.env.ALLOWED_ORIGINS!.split(",")
-    corsOptions.origin = allowedOrigins
+  if(!config.isDev){
+    corsOptions.origin = config.allowedOrigins
   }
 
   const app = express();
+  app.use(requestIdMiddleware);
   app.use(cors(corsOptions));
   app.use(morganMiddleware);
   app.use(express.json());
+  // Before `routes`, its catch-all would answer 404. Dev only, the docs list every route
+  if(config.isDev){
+    app.use(createDocsRoutes(routes));
+  }
   app.use(routes);
+  app.use(errorMiddleware);
+
+  // Every async controller / middleware error ends up in errorMiddleware
+  wrapAsyncHandlers(routes);
 
   return app;
 }
@@ -0,0 +1,145 @@
+import bcrypt from "bcrypt";
+import { UserAuthResponseDTO } from "$entities/User";
+import { hashRefreshToken, verifyUserToken } from "$utils/jwt.utils";
+import { prisma } from "$utils/prisma.utils";
+import { login, logout, logoutAllDevices, refresh, register } from "./AuthService";
+
+jest.mock("$utils/prisma.utils", () => {
+    const prisma: any = {
+        user: {
+            findUnique: jest.fn(),
+            create: jest.fn()
+        },
+        refreshToken: {
+            create: jest.fn(),
+            findUnique: jest.fn(),
+            update: jest.fn(),
+            updateMany: jest.fn()
+        }
+    }
+    prisma.$transaction = (callback: (tx: any) => Promise<any>) => callback(prisma)
+    return { prisma }
+})
+
+jest.mock("$config/index", () => ({
+    getConfig: () => ({ jwt: { secret: "testsecret-testsecret", accessTokenExpiresIn: "15m", refreshTokenExpiresInDays: 30 } })
+}))
+
+describe('test AuthService', ()=>{
+    const user = (prisma as any).user
+    const refreshToken = (prisma as any).refreshToken
+    const storedUser = { id: 'user-1', fullName: 'Tom', email: 'tom@mail.com', role: 'USER', password: bcrypt.hashSync('password123', 4) }
+
+    // Stored refresh token of the session `family-1`
+    const storedToken = (data: object = {}) => ({
+        id: 'token-1',
+        tokenHash: hashRefreshToken('refresh-token'),
+        family: 'family-1',
+        userId: 'user-1',
+        expiresAt: new Date(Date.now() + 60 * 1000),
+        revokedAt: null,
+        user: storedUser,
+        ...data
+    })
+
+    beforeEach(()=>{
+        jest.resetAllMocks()
+        refreshToken.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'token-2', ...data }))
+        refreshToken.updateMany.mockResolvedValue({ count: 1 })
+    })
+
+    test('should register a user with a hashed password and open a session', async ()=>{
+        user.findUnique.mockResolvedValue(null)
+        user.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'user-1', role: 'USER', ...data }))
+
+        const result = await register({ fullName: 'Tom', email: 'tom@mail.com', password: 'password123' })
+
+        expect(result.status).toBe(true)
+        const { password } = user.create.mock.calls[0][0].data
+        expect(await bcrypt.compare('password123', password)).toBe(true)
+
+        const tokens = result.data as UserAuthResponseDTO
+        expect(tokens.user).toEqual({ id: 'user-1', email: 'tom@mail.com', fullName: 'Tom', role: 'USER' })
+        expect(verifyUserToken(tokens.token).sessionId).toBe(refreshToken.create.mock.calls[0][0].data.family)
+        expect(tokens).not.toHaveProperty('refreshTokenId')
+    })
+
+    test('should refuse an email already registered', async ()=>{
+        user.findUnique.mockResolvedValue(storedUser)
+
+        const result = await register({ fullName: 'Tom', email: 'tom@mail.com', password: 'password123' })
+
+        expect(result.err).toMatchObject({ code: 409, errorCode: 'EMAIL_ALREADY_REGISTERED' })
+        expect(user.create).not.toHaveBeenCalled()
+    })
+
+    test('should log in with the right password only, with the same error for an unknown email', async ()=>{
+        user.findUnique.mockResolvedValue(storedUser)
+        expect((await login({ email: 'tom@mail.com', password: 'password123' })).status).toBe(true)
+
+        const wrongPassword = await login({ email: 'tom@mail.com', password: 'wrong' })
+        user.findUnique.mockResolvedValue(null)
+        const unknownEmail = await login({ email: 'who@mail.com', password: 'password123' })
+
+        expect(wrongPassword.err).toMatchObject({ code: 401, errorCode: 'INVALID_CREDENTIALS' })
+        expect(unknownEmail.err).toEqual(wrongPassword.err)
+    })
+
+    test('should rotate a refresh token within its session', async ()=>{
+        refreshToken.findUnique.mockResolvedValue(storedToken())
+
+        const result = await refresh('refresh-token')
+
+        const tokens = result.data as UserAuthResponseDTO
+        expect(tokens.refreshToken).not.toBe('refresh-token')
+        expect(verifyUserToken(tokens.token).sessionId).toBe('family-1')
+        expect(refreshToken.create.mock.calls[0][0].data).toMatchObject({ family: 'family-1', tokenHash: hashRefreshToken(tokens.refreshToken) })
+        expect(refreshToken.updateMany.mock.calls[0][0]).toMatchObject({ where: { id: 'token-1', revokedAt: null }, data: { revokedAt: expect.any(Date) } })
+        expect(refreshToken.update).toHaveBeenCalledWith({ where: { id: 'token-1' }, data: { replacedById: 'token-2' } })
+    })
+
+    test('should revoke the whole session when a rotated token is used again', async ()=>{
+        refreshToken.findUnique.mockResolvedValue(storedToken({ revokedAt: new Date() }))
+
+        const result = await refresh('refresh-token')
+
+        expect(result.err).toMatchObject({ code: 401, errorCode: 'INVALID_REFRESH_TOKEN' })
+        expect(refreshToken.create).not.toHaveBeenCalled()
+        expect(refreshToken.updateMany).toHaveBeenCalledWith({ where: { family: 'family-1', revokedAt: null }, data: { revokedAt: expect.any(Date) } })
+    })
+
+    test('should revoke the whole session when a concurrent refresh claimed the token first', async ()=>{
+        refreshToken.findUnique.mockResolvedValue(storedToken())
+        refreshToken.updateMany.mockResolvedValueOnce({ count: 0 })
+
+        const result = await refresh('refresh-token')
+
+        expect(result.err).toMatchObject({ code: 401, errorCode: 'INVALID_REFRESH_TOKEN' })
+        expect(refreshToken.create).not.toHaveBeenCalled()
+        expect(refreshToken.updateMany.mock.calls[1][0]).toMatchObject({ where: { family: 'family-1', revokedAt: null } })
+    })
+
+    test('should refuse an unknown or expired refresh token', async ()=>{
+        refreshToken.findUnique.mockResolvedValue(null)
+        expect((await refresh('unknown')).err).toMatchObject({ code: 401, errorCode: 'INVALID_REFRESH_TOKEN' })
+
+        refreshToken.findUnique.mockResolvedValue(storedToken({ expiresAt: new Date(Date.now() - 1000) }))
+        expect((await refresh('refresh-token')).err).toMatchObject({ code: 401, errorCode: 'REFRESH_TOKEN_EXPIRED' })
+        expect(refreshToken.updateMany).not.toHaveBeenCalled()
+    })
+
+    test('should log out the session of the refresh token', async ()=>{
+        refreshToken.findUnique.mockResolvedValue(storedToken())
+        expect((await logout('refresh-token')).status).toBe(true)
+        expect(refreshToken.updateMany).toHaveBeenCalledWith({ where: { family: 'family-1', revokedAt: null }, data: { revokedAt: expect.any(Date) } })
+
+        refreshToken.findUnique.mockResolvedValue(null)
+        expect((await logout('unknown')).status).toBe(true)
+        expect(refreshToken.updateMany).toHaveBeenCalledTimes(1)
+    })
+
+    test('should log out every session of the user', async ()=>{
+        expect((await logoutAllDevices('user-1')).status).toBe(true)
+        expect(refreshToken.updateMany).toHaveBeenCalledWith({ where: { userId: 'user-1', revokedAt: null }, data: { revokedAt: expect.any(Date) } })
+    })
+});
@@ -0,0 +1,262 @@
+import { ConflictWithMessage, INVALID_ID_SERVICE_RESPONSE, ServiceResponse, UnauthorizedWithMessage } from "$entities/Service";
+import { UserAuthResponseDTO, UserJWTDAO, UserLoginDTO, UserRegisterDTO, exclude } from "$entities/User";
+import Logger from '$pkg/logger';
+import { generateRefreshToken, getRefreshTokenExpiryDate, hashRefreshToken, signUserToken } from "$utils/jwt.utils";
+import { TransactionClient, prisma } from "$utils/prisma.utils";
+import { handleServiceError } from "$utils/prisma_error.utils";
+import { User } from "@prisma/client";
+import bcrypt from "bcrypt";
+import { randomUUID } from "crypto";
+
+const SALT_ROUNDS = 12
+
+function toUserJWTDAO(user: User): UserJWTDAO {
+    return {
+        id: user.id,
+        email: user.email,
+        fullName: user.fullName,
+        role: user.role
+    }
+}
+
+/*
+  Issues a new access token + refresh token pair.
+  `family` groups every refresh token that descends from the same login,
+  it is also used as the `sessionId` inside the access token.
+*/
+async function issueTokens(user: User, family: string = randomUUID(), tx: TransactionClient = prisma): Promise<UserAuthResponseDTO & { refreshTokenId: string }> {
+    const refreshToken = generateRefreshToken()
+
+    const storedToken = await tx.refreshToken.create({
+        data: {
+            tokenHash: hashRefreshToken(refreshToken),
+            family,
+            userId: user.id,
+            expiresAt: getRefreshTokenExpiryDate()
+        }
+    })
+
+    const userJWT = toUserJWTDAO(user)
+
+    return {
+        token: signUserToken({ ...userJWT, sessionId: family }),
+        refreshToken,
+        refreshTokenId: storedToken.id,
+        user: userJWT
+    }
+}
+
+async function revokeFamily(family: string) {
+    await prisma.refreshToken.updateMany({
+        where: {
+            family,
+            revokedAt: null
+        },
+        data: {
+            revokedAt: new Date()
+        }
+    })
+}
+
+export async function register(data: UserRegisterDTO): Promise<ServiceResponse<UserAuthResponseDTO | {}>> {
+    try {
+        const existingUser = await prisma.user.findUnique({
+            where: {
+                email: data.email
+            }
+        })
+
+        if (existingUser) return ConflictWithMessage("Email is already registered", "EMAIL_ALREADY_REGISTERED")
+
+        const hashedPassword = await bcrypt.hash(data.password, SALT_ROUNDS)
+
+        const user = await prisma.user.create({
+            data: {
+                fullName: data.fullName,
+                email: data.email,
+                password: hashedPassword
+            }
+        })
+
+        const { refreshTokenId, ...tokens } = await issueTokens(user)
+
+        return {
+            status: true,
+            data: tokens
+        }
+    } catch (err) {
+        return handleServiceError("AuthService.register", err)
+    }
+}
+
+export async function login(data: UserLoginDTO): Promise<ServiceResponse<UserAuthResponseDTO | {}>> {
+    try {
+        const user = await prisma.user.findUnique({
+            where: {
+                email: data.email
+            }
+        })
+
+        // Same message for unknown email and wrong password, so registered emails can't be probed
+        if (!user) return UnauthorizedWithMessage("Invalid email or password", "INVALID_CREDENTIALS")
+
+        const isPasswordMatch = await bcrypt.compare(data.password, user.password)
+        if (!isPasswordMatch) return UnauthorizedWithMessage("Invalid email or password", "INVALID_CREDENTIALS")
+
+        const { refreshTokenId, ...tokens } = await issueTokens(user)
+
+        return {
+            status: true,
+            data: tokens
+        }
+    } catch (err) {
+        return handleServiceError("AuthService.login", err)
+    }
+}
+
+export async function me(userId: string): Promise<ServiceResponse<Omit<User, "password"> | {}>> {
+    try {
+        const user = await prisma.user.findUnique({
+            where: {
+                id: userId
+            }
+        })
+
+        if (!user) return INVALID_ID_SERVICE_RESPONSE
+
+        return {
+            status: true,
+            data: exclude(user, "password")
+        }
+    } catch (err) {
+        return handleServiceError("AuthService.me", err)
+    }
+}
+
+export async function refresh(refreshToken: string): Promise<ServiceResponse<UserAuthResponseDTO | {}>> {
+    try {
+        const storedToken = await prisma.refreshToken.findUnique({
+            where: {
+                tokenHash: hashRefreshToken(refreshToken)
+            },
+            include: {
+                user: true
+            }
+        })
+
+        if (!storedToken) return UnauthorizedWithMessage("Invalid refresh token", "INVALID_REFRESH_TOKEN")
+
+        // A rotated token being used again means it was stolen, kill the whole session
+        if (storedToken.revokedAt) {
+            Logger.warn(`AuthService.refresh : refresh token reuse detected on session ${storedToken.family}`)
+            await revokeFamily(storedToken.family)
+            return UnauthorizedWithMessage("Invalid refresh token", "INVALID_REFRESH_TOKEN")
+        }
+
+        if (storedToken.expiresAt < new Date()) return UnauthorizedWithMessage("Refresh token expired", "REFRESH_TOKEN_EXPIRED")
+
+        const tokens = await prisma.$transaction(async (tx) => {
+            // Claim the token atomically, so two concurrent refreshes can't both succeed
+            const claimed = await tx.refreshToken.updateMany({
+                where: {
+                    id: storedToken.id,
+                    revokedAt: null
+                },
+                data: {
+                    revokedAt: new Date()
+                }
+            })
+            if (claimed.count === 0) return null
+
+            const { refreshTokenId, ...tokens } = await issueTokens(storedToken.user, storedToken.family, tx)
+
+            await tx.refreshToken.update({
+                where: {
+                    id: storedToken.id
+                },
+                data: {
+                    replacedById: refreshTokenId
+                }
+            })
+
+            return tokens
+        })
+
+        if (!tokens) {
+            Logger.warn(`AuthService.refresh : concurrent refresh token reuse on session ${storedToken.family}`)
+            await revokeFamily(storedToken.family)
+            return UnauthorizedWithMessage("Invalid refresh token", "INVALID_REFRESH_TOKEN")
+        }
+
+        return {
+            status: true,
+            data: tokens
+        }
+    } catch (err) {
+        return handleServiceError("AuthService.refresh", err)
+    }
+}
+
+export async function logout(refreshToken: string): Promise<ServiceResponse<{}>> {
+    try {
+        const storedToken = await prisma.refreshToken.findUnique({
+            where: {
+                tokenHash: hashRefreshToken(refreshToken)
+            }
+        })
+
+        // Logging out an unknown or already revoked session is not an error
+        if (storedToken) await revokeFamily(storedToken.family)
+
+        return {
+            status: true,
+            data: {}
+        }
+    } catch (err) {
+        return handleServiceError("AuthService.logout", err)
+    }
+}
+
+// Revokes every session of the user, on logout from all devices and on a password change
+export async function revokeUserSessions(userId: string, tx: TransactionClient = prisma) {
+    await tx.refreshToken.updateMany({
+        where: {
+            userId,
+            revokedAt: null
+        },
+        data: {
+            revokedAt: new Date()
+        }
+    })
+}
+
+export async function logoutAllDevices(userId: string): Promise<ServiceResponse<{}>> {
+    try {
+        await revokeUserSessions(userId)
+
+        return {
+            status: true,
+            data: {}
+        }
+    } catch (err) {
+        return handleServiceError("AuthService.logoutAllDevices", err)
+    }
+}
+
+// A session is active as long as its family still has an unrevoked, unexpired refresh token
+export async function isSessionActive(sessionId: string): Promise<boolean> {
+    const activeToken = await prisma.refreshToken.findFirst({
+        where: {
+            family: sessionId,
+            revokedAt: null,
+            expiresAt: {
+                gt: new Date()
+            }
+        },
+        select: {
+            id: true
+        }
+    })
+
+    return activeToken !== null
+}
@@ -0,0 +1,150 @@
+import { CronJob } from "$entities/Cron";
+import { prisma } from "$utils/prisma.utils";
+import { getRequestContext } from "$utils/request_context.utils";
+import { StartedCronRun, interruptRuns, runJobNow, startJobRun } from "./CronService";
+
+jest.mock("$utils/prisma.utils", () => ({
+    prisma: {
+        cronLock: {
+            createMany: jest.fn(),
+            updateMany: jest.fn()
+        },
+        cronRun: {
+            create: jest.fn(),
+            update: jest.fn()
+        }
+    }
+}))
+
+jest.mock("$jobs/registry", () => ({
+    __esModule: true,
+    default: []
+}))
+
+describe('test startJobRun', ()=>{
+    const cronLock = (prisma as any).cronLock
+    const cronRun = (prisma as any).cronRun
+    const requester = { id: 'admin-1', fullName: 'Admin', email: 'admin@mail.com', role: 'ADMIN' }
+
+    const job = (handler: CronJob["handler"], timeoutMs = 1000): CronJob => ({ name: 'report', schedule: '* * * * *', timeoutMs, handler })
+
+    // The lock is free, every query echoes its data
+    beforeEach(()=>{
+        jest.clearAllMocks()
+        cronLock.updateMany.mockResolvedValue({ count: 1 })
+        cronRun.create.mockImplementation(({ data }: any) => Promise.resolve({ ...data, status: 'RUNNING', startedAt: new Date() }))
+        cronRun.update.mockImplementation(({ data }: any) => Promise.resolve(data))
+    })
+
+    const run = async (cronJob: CronJob) => {
+        const result = await startJobRun(cronJob, 'SCHEDULE')
+        expect(result.status).toBe(true)
+        return (result.data as StartedCronRun).finished
+    }
+
+    test('should record a successful run, with the run id in the log context, and release the lock', async ()=>{
+        let requestId: string | undefined
+        const finished = await run(job(() => { requestId = getRequestContext()?.requestId }))
+
+        expect(finished).toMatchObject({ status: 'SUCCESS', error: undefined, durationMs: expect.any(Number) })
+        expect(requestId).toBe(cronRun.create.mock.calls[0][0].data.id)
+
+        const [[lockQuery], [releaseQuery]] = cronLock.updateMany.mock.calls
+        expect(releaseQuery).toEqual({
+            where: { jobName: 'report', lockedBy: lockQuery.data.lockedBy },
+            data: { lockedBy: null, lockedUntil: null }
+        })
+    })
+
+    test('should record the error of a failed run', async ()=>{
+        const finished = await run(job(async () => { throw new Error('SMTP down') }))
+
+        expect(finished.status).toBe('FAILED')
+        expect(finished.error).toContain('SMTP down')
+        expect(cronLock.updateMany).toHaveBeenCalledTimes(2)
+    })
+
+    test('should abort a run after its timeout', async ()=>{
+        let signal: AbortSignal | undefined
+        const finished = await run(job((context) => {
+            signal = context.signal
+            return new Promise(() => {})
+        }, 20))
+
+        expect(finished).toMatchObject({ status: 'TIMED_OUT', error: 'Timed out after 20 ms' })
+        expect(signal?.aborted).toBe(true)
+    })
+
+    test('should keep the lock of a timed out run until its handler settles', async ()=>{
+        jest.useFakeTimers()
+        let settle: () => void = () => {}
+        const finished = run(job(() => new Promise<void>((resolve) => { settle = resolve }), 20))
+
+        await jest.advanceTimersByTimeAsync(20)
+        expect(await finished).toMatchObject({ status: 'TIMED_OUT' })
+
+        // The handler ignores the signal : the lock is extended instead of released
+        await jest.advanceTimersByTimeAsync(60 * 1000)
+        const [[lockQuery], ...extensions] = cronLock.updateMany.mock.calls
+        expect(extensions.length).toBeGreaterThan(0)
+        for (const [query] of extensions) {
+            expect(query).toEqual({ where: { jobName: 'report', lockedBy: lockQuery.data.lockedBy }, data: { lockedUntil: expect.any(Date) } })
+        }
+
+        settle()
+        await jest.advanceTimersByTimeAsync(0)
+        jest.useRealTimers()
+        expect(cronLock.updateMany).toHaveBeenLastCalledWith({
+            where: { jobName: 'report', lockedBy: lockQuery.data.lockedBy },
+            data: { lockedBy: null, lockedUntil: null }
+        })
+    })
+
+    test('should record the runs in flight as interrupted on shutdown, without waiting for their handler', async ()=>{
+        let signal: AbortSignal | undefined
+        const started = await runJobNow('report', requester, [job((context) => {
+            signal = context.signal
+            return new Promise(() => {})
+        }, 60 * 1000)])
+        expect(started.status).toBe(true)
+
+        await interruptRuns()
+
+        expect(signal?.aborted).toBe(true)
+        expect(cronRun.update).toHaveBeenCalledWith(expect.objectContaining({
+            data: expect.objectContaining({ status: 'FAILED', error: expect.stringContaining('Interrupted by the shutdown') })
+        }))
+        expect(cronLock.updateMany).toHaveBeenLastCalledWith({
+            where: { jobName: 'report', lockedBy: (started.data as any).id },
+            data: { lockedBy: null, lockedUntil: null }
+        })
+
+        // Finished runs are not tracked anymore
+        cronRun.update.mockClear()
+        await interruptRuns()
+        expect(cronRun.update).not.toHaveBeenCalled()
+    })
+
+    test('should not start a job locked by another run', async ()=>{
+        cronLock.updateMany.mockResolvedValue({ count: 0 })
+        const handler = jest.fn()
+
+        const result = await startJobRun(job(handler), 'SCHEDULE')
+
+        expect(result.status).toBe(false)
+        expect(result.err?.code).toBe(409)
+        expect(result.err?.errorCode).toBe('CRON_JOB_ALREADY_RUNNING')
+        expect(handler).not.toHaveBeenCalled()
+        expect(cronRun.create).not.toHaveBeenCalled()
+    })
+
+    test('should run a job of the registry manually, and answer 404 for unknown jobs', async ()=>{
+        const result = await runJobNow('report', requester, [job(() => {})])
+
+        expect(result.status).toBe(true)
+        expect(result.data).toMatchObject({ jobName: 'report', trigger: 'MANUAL', triggeredById: 'admin-1', status: 'RUNNING' })
+
+        const unknown = await runJobNow('unknown', requester, [])
+        expect(unknown.err?.errorCode).toBe('CRON_JOB_NOT_FOUND')
+    })
+});
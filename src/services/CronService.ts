@@ -0,0 +1,256 @@
+import os from "os";
+import { randomUUID } from "crypto";
+import { CronRun, CronRunStatus, CronRunTrigger } from "@prisma/client";
+import { CronJob, CronJobDTO } from "$entities/Cron";
+import { FilteringQueryV2, PagedList } from "$entities/Query";
+import { ConflictWithMessage, NotFoundWithMessage, ServiceResponse } from "$entities/Service";
+import { UserJWTDAO } from "$entities/User";
+import CronJobs from "$jobs/registry";
+import { prisma } from "$utils/prisma.utils";
+import { handleServiceError } from "$utils/prisma_error.utils";
+import { runWithRequestContext } from "$utils/request_context.utils";
+import Logger from "$pkg/logger";
+import { findManyPaged } from "./helpers/PagedQuery";
+
+export const DEFAULT_CRON_TIMEZONE = "Asia/Jakarta"
+export const DEFAULT_CRON_TIMEOUT_MS = 5 * 60 * 1000
+
+// The lock outlives the timeout a little, so the instance running the job releases it first,
+// and the lock of a crashed instance still expires
+const LOCK_MARGIN_MS = 30 * 1000
+
+// Recorded on every run, to know which process ran it
+const CRON_INSTANCE = `${os.hostname()}:${process.pid}`
+
+// Runs started by this process with what interrupts them, see interruptRuns
+const inFlightRuns = new Map<Promise<CronRun>, AbortController>()
+
+export interface StartedCronRun {
+    run: CronRun
+    // Resolves with the finished run, never rejects
+    finished: Promise<CronRun>
+}
+
+export function getTimeoutMs(job: CronJob): number {
+    return job.timeoutMs ?? DEFAULT_CRON_TIMEOUT_MS
+}
+
+export function getTimezone(job: CronJob): string {
+    return job.timezone ?? DEFAULT_CRON_TIMEZONE
+}
+
+// Atomic across instances : only one `updateMany` can match the free (or expired) lock
+async function acquireLock(jobName: string, owner: string, timeoutMs: number): Promise<boolean> {
+    await prisma.cronLock.createMany({
+        data: [{ jobName }],
+        skipDuplicates: true
+    })
+
+    const now = new Date()
+    const { count } = await prisma.cronLock.updateMany({
+        where: {
+            jobName,
+            OR: [
+                { lockedUntil: null },
+                { lockedUntil: { lt: now } }
+            ]
+        },
+        data: {
+            lockedBy: owner,
+            lockedUntil: new Date(now.getTime() + timeoutMs + LOCK_MARGIN_MS)
+        }
+    })
+
+    return count === 1
+}
+
+async function extendLock(jobName: string, owner: string, durationMs: number): Promise<void> {
+    await prisma.cronLock.updateMany({
+        where: { jobName, lockedBy: owner },
+        data: { lockedUntil: new Date(Date.now() + durationMs) }
+    })
+}
+
+async function releaseLock(jobName: string, owner: string): Promise<void> {
+    await prisma.cronLock.updateMany({
+        where: { jobName, lockedBy: owner },
+        data: { lockedBy: null, lockedUntil: null }
+    })
+}
+
+/*
+  A handler that ignores its abort signal keeps running after the timeout, the lock stays held
+  (extended before it expires) until it settles, so the next run can't overlap it
+*/
+function releaseLockWhenSettled(job: CronJob, run: CronRun, handling: Promise<unknown>): void {
+    const heartbeat = setInterval(() => {
+        extendLock(job.name, run.id, LOCK_MARGIN_MS).catch((err) => Logger.error(`CronService.executeRun : failed to extend ${job.name} : ${err}`))
+    }, LOCK_MARGIN_MS / 2)
+    // The lock of a process exiting with the handler still running expires on its own
+    heartbeat.unref()
+
+    handling.catch(() => undefined).then(async () => {
+        clearInterval(heartbeat)
+        Logger.warn(`CronService : ${job.name} settled after its timeout (run ${run.id})`)
+        await releaseLock(job.name, run.id).catch((err) => Logger.error(`CronService.executeRun : failed to release ${job.name} : ${err}`))
+    })
+}
+
+async function executeRun(job: CronJob, run: CronRun, interruption: AbortSignal): Promise<CronRun> {
+    const timeoutMs = getTimeoutMs(job)
+    const controller = new AbortController()
+    let timer: NodeJS.Timeout | undefined
+    let status: CronRunStatus = "SUCCESS"
+    let error: string | undefined
+
+    // Log lines of the job carry the run id
+    const handling = runWithRequestContext({ requestId: run.id }, () =>
+        Promise.resolve().then(() => job.handler({ runId: run.id, trigger: run.trigger, signal: controller.signal }))
+    )
+
+    try {
+        const result = await Promise.race([
+            handling,
+            new Promise<"timeout">((resolve) => {
+                timer = setTimeout(() => resolve("timeout"), timeoutMs)
+            }),
+            new Promise<"interrupted">((resolve) => {
+                interruption.addEventListener("abort", () => resolve("interrupted"), { once: true })
+            })
+        ])
+
+        if (result === "timeout") {
+            status = "TIMED_OUT"
+            error = `Timed out after ${timeoutMs} ms`
+            controller.abort()
+        } else if (result === "interrupted") {
+            status = "FAILED"
+            error = `Interrupted by the shutdown of ${CRON_INSTANCE}`
+            controller.abort()
+        }
+    } catch (err) {
+        status = "FAILED"
+        error = err instanceof Error ? err.stack ?? err.message : String(err)
+    } finally {
+        clearTimeout(timer)
+    }
+
+    const finishedAt = new Date()
+    const log = `CronService : ${job.name} ${status} in ${finishedAt.getTime() - run.startedAt.getTime()} ms (run ${run.id})`
+    if (status === "SUCCESS") Logger.info(log)
+    else Logger.error(`${log} : ${error}`)
+
+    try {
+        return await prisma.cronRun.update({
+            where: { id: run.id },
+            data: {
+                status,
+                error,
+                finishedAt,
+                durationMs: finishedAt.getTime() - run.startedAt.getTime()
+            }
+        })
+    } catch (err) {
+        Logger.error(`CronService.executeRun : failed to record run ${run.id} : ${err}`)
+        return run
+    } finally {
+        if (status === "TIMED_OUT") releaseLockWhenSettled(job, run, handling)
+        else await releaseLock(job.name, run.id).catch((err) => Logger.error(`CronService.executeRun : failed to release ${job.name} : ${err}`))
+    }
+}
+
+/**
+ * Start a run of a job unless it is already running on any instance, and record it in the run history
+ * @param job           - job of the registry
+ * @param trigger       - SCHEDULE from the cron app, MANUAL from the "run now" endpoint
+ * @param triggeredById - user who triggered a MANUAL run
+ * @returns the RUNNING run and a promise of the finished run, 409 CRON_JOB_ALREADY_RUNNING when locked
+ */
+export async function startJobRun(job: CronJob, trigger: CronRunTrigger, triggeredById?: string): Promise<ServiceResponse<StartedCronRun | {}>> {
+    try {
+        const runId = randomUUID()
+
+        if (!(await acquireLock(job.name, runId, getTimeoutMs(job)))) {
+            return ConflictWithMessage(`Cron job ${job.name} is already running`, "CRON_JOB_ALREADY_RUNNING")
+        }
+
+        let run: CronRun
+        try {
+            run = await prisma.cronRun.create({
+                data: {
+                    id: runId,
+                    jobName: job.name,
+                    trigger,
+                    instance: CRON_INSTANCE,
+                    triggeredById
+                }
+            })
+        } catch (err) {
+            await releaseLock(job.name, runId)
+            throw err
+        }
+
+        const interruption = new AbortController()
+        const finished = executeRun(job, run, interruption.signal)
+        inFlightRuns.set(finished, interruption)
+        void finished.then(() => inFlightRuns.delete(finished))
+
+        return {
+            status: true,
+            data: { run, finished }
+        }
+    } catch (err) {
+        return handleServiceError("CronService.startJobRun", err)
+    }
+}
+
+/**
+ * Stop the runs started by this process without waiting for their handler : the signal of the handler is aborted,
+ * the run is recorded FAILED and its lock released, so no run stays RUNNING once prisma is disconnected.
+ * Register it with `onShutdown` in the apps that start runs, before the server starting them
+ */
+export async function interruptRuns(): Promise<void> {
+    inFlightRuns.forEach((interruption) => interruption.abort())
+    await Promise.all(inFlightRuns.keys())
+}
+
+export async function getJobs(jobs: CronJob[] = CronJobs): Promise<ServiceResponse<CronJobDTO[] | {}>> {
+    try {
+        const lastRuns = await Promise.all(jobs.map((job) => prisma.cronRun.findFirst({
+            where: { jobName: job.name },
+            orderBy: { startedAt: "desc" }
+        })))
+
+        return {
+            status: true,
+            data: jobs.map((job, index) => ({
+                name: job.name,
+                description: job.description,
+                schedule: job.schedule,
+                timezone: getTimezone(job),
+                timeoutMs: getTimeoutMs(job),
+                lastRun: lastRuns[index]
+            }))
+        }
+    } catch (err) {
+        return handleServiceError("CronService.getJobs", err)
+    }
+}
+
+export async function getRuns(filters: FilteringQueryV2): Promise<ServiceResponse<PagedList<CronRun[]> | {}>> {
+    return findManyPaged<CronRun>(prisma.cronRun, filters, { policy: { tiebreaker: "id" } })
+}
+
+// Start the job in the background, the run can be followed in the run history
+export async function runJobNow(name: string, requester: UserJWTDAO, jobs: CronJob[] = CronJobs): Promise<ServiceResponse<CronRun | {}>> {
+    const job = jobs.find((job) => job.name === name)
+    if (!job) return NotFoundWithMessage(`Cron job ${name} not found`, "CRON_JOB_NOT_FOUND")
+
+    const started = await startJobRun(job, "MANUAL", requester.id)
+    if (!started.status) return started
+
+    return {
+        status: true,
+        data: (started.data as StartedCronRun).run
+    }
+}
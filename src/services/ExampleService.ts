@@ -1,5 +1,5 @@
-import { INTERNAL_SERVER_ERROR_SERVICE_RESPONSE, ServiceResponse } from "$entities/Service";
-import Logger from '$pkg/logger';
+import { ServiceResponse } from "$entities/Service";
+import { handleServiceError } from "$utils/prisma_error.utils";
 
 export async function get():Promise<ServiceResponse<{}>>{
     try{
@@ -8,7 +8,6 @@ export async function get():Promise<ServiceResponse<{}>>{
             data:{}
         }
     }catch(err){
-        Logger.error(`ExampleService.get : ${err}`)
-        return INTERNAL_SERVER_ERROR_SERVICE_RESPONSE
+        return handleServiceError("ExampleService.get", err)
     }
 }
\ No newline at end of file
@@ -0,0 +1,157 @@
+import * as Mailer from "$pkg/mailer";
+import Logger from "$pkg/logger";
+import { AccountVerificationMail } from "$pkg/mailer/templates";
+import { prisma } from "$utils/prisma.utils";
+import { getRetryDelayMs, processOutbox, queueMail } from "./MailService";
+
+jest.mock("$utils/prisma.utils", () => ({
+    prisma: {
+        mailOutbox: {
+            create: jest.fn(),
+            findMany: jest.fn(),
+            findUnique: jest.fn(),
+            update: jest.fn(),
+            updateMany: jest.fn()
+        }
+    }
+}))
+
+jest.mock("$config/index", () => ({
+    getConfig: () => ({
+        mail: { transport: "memory", from: "App <no-reply@app.com>", dir: "logs/mails", maxAttempts: 3, smtp: { port: 587, secure: false } }
+    })
+}))
+
+describe('test MailService', ()=>{
+    const mailOutbox = (prisma as any).mailOutbox
+
+    const outboxMail = (attempts: number) => ({
+        id: 'mail-1',
+        template: 'account-verification',
+        from: 'App <no-reply@app.com>',
+        to: 'tom@mail.com',
+        cc: null,
+        bcc: null,
+        subject: 'Verify your email address',
+        html: '<p>Hello Tom</p>',
+        text: 'Hello Tom',
+        status: 'SENDING',
+        attempts
+    })
+
+    // One due mail, claimed after `attempts` attempts
+    const dueMail = (attempts: number) => {
+        mailOutbox.findMany.mockResolvedValue([{ id: 'mail-1' }])
+        mailOutbox.updateMany.mockResolvedValue({ count: 1 })
+        mailOutbox.findUnique.mockResolvedValue(outboxMail(attempts))
+    }
+
+    beforeEach(()=>{
+        jest.clearAllMocks()
+        jest.restoreAllMocks()
+        Mailer.clearSentMails()
+        mailOutbox.create.mockImplementation(({ data }: any) => Promise.resolve(data))
+    })
+
+    test('should queue the rendered template', async ()=>{
+        const mail = await queueMail(
+            AccountVerificationMail,
+            { fullName: 'Tom', verificationUrl: 'https://app.com/verify?token=abc', expiresInHours: 24 },
+            { to: ['tom@mail.com', 'tom@work.com'], bcc: 'audit@app.com' }
+        )
+
+        expect(mail).toMatchObject({
+            template: 'account-verification',
+            from: 'App <no-reply@app.com>',
+            to: 'tom@mail.com, tom@work.com',
+            cc: null,
+            bcc: 'audit@app.com',
+            subject: 'Verify your email address'
+        })
+        expect(mail.html).toContain('href="https://app.com/verify?token=abc"')
+        expect(mail.text).toContain('This link expires in 24 hours.')
+
+        await expect(queueMail(AccountVerificationMail, { fullName: 'Tom', verificationUrl: '', expiresInHours: 24 }, { to: [] }))
+            .rejects.toThrow('account-verification has no recipient')
+    })
+
+    test('should send a claimed mail and mark it sent', async ()=>{
+        dueMail(1)
+        const sendSpy = jest.spyOn(Mailer, 'sendMail')
+
+        expect(await processOutbox()).toEqual({ sent: 1, retried: 0, failed: 0 })
+
+        // The delivery is recorded before the transport is called
+        expect(mailOutbox.update.mock.calls[0][0]).toEqual({ where: { id: 'mail-1' }, data: { deliveryStartedAt: expect.any(Date) } })
+        expect(mailOutbox.update.mock.invocationCallOrder[0]).toBeLessThan(sendSpy.mock.invocationCallOrder[0])
+
+        const [sent] = Mailer.getSentMails()
+        expect(sent.message).toMatchObject({ to: 'tom@mail.com', subject: 'Verify your email address', html: '<p>Hello Tom</p>' })
+        expect(mailOutbox.update).toHaveBeenCalledWith({
+            where: { id: 'mail-1' },
+            data: { status: 'SENT', messageId: sent.messageId, sentAt: sent.sentAt, lastError: null }
+        })
+    })
+
+    test('should skip a mail claimed by another process', async ()=>{
+        dueMail(1)
+        mailOutbox.updateMany.mockResolvedValue({ count: 0 })
+
+        expect(await processOutbox()).toEqual({ sent: 0, retried: 0, failed: 0 })
+        expect(Mailer.getSentMails()).toHaveLength(0)
+    })
+
+    test('should retry a failed mail with backoff, and give up after the last attempt', async ()=>{
+        jest.spyOn(Mailer, 'sendMail').mockRejectedValue(new Error('Connection refused'))
+
+        dueMail(2)
+        const before = Date.now()
+        expect(await processOutbox()).toEqual({ sent: 0, retried: 1, failed: 0 })
+
+        const { data } = mailOutbox.update.mock.calls[1][0]
+        expect(data).toMatchObject({ status: 'PENDING', lastError: 'Connection refused', deliveryStartedAt: null })
+        expect(data.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + getRetryDelayMs(2))
+
+        dueMail(3)
+        expect(await processOutbox()).toEqual({ sent: 0, retried: 0, failed: 1 })
+        expect(mailOutbox.update.mock.calls[3][0].data).toEqual({ status: 'FAILED', lastError: 'Connection refused', deliveryStartedAt: null })
+    })
+
+    test('should never queue a sent mail again when it cannot be marked sent', async ()=>{
+        const errorSpy = jest.spyOn(Logger, 'error').mockImplementation(() => Logger)
+
+        jest.useFakeTimers()
+        // Resolved right away, the retries are only spaced by the faked timers
+        const sendSpy = jest.spyOn(Mailer, 'sendMail').mockResolvedValue({ messageId: '<1@app.com>', sentAt: new Date(), message: {} as any })
+
+        dueMail(1)
+        mailOutbox.update.mockResolvedValueOnce({}).mockRejectedValueOnce(new Error('Connection lost'))
+        const retried = processOutbox()
+        await jest.advanceTimersByTimeAsync(999)
+        expect(mailOutbox.update).toHaveBeenCalledTimes(2)
+        await jest.advanceTimersByTimeAsync(1)
+        expect(await retried).toEqual({ sent: 1, retried: 0, failed: 0 })
+        expect(mailOutbox.update.mock.calls.map(([query]: any) => query.data.status)).toEqual([undefined, 'SENT', 'SENT'])
+
+        sendSpy.mockClear()
+        mailOutbox.update.mockClear()
+        mailOutbox.update.mockResolvedValueOnce({}).mockRejectedValue(new Error('Connection lost'))
+        const failed = processOutbox()
+        await jest.advanceTimersByTimeAsync(3000)
+        expect(await failed).toEqual({ sent: 1, retried: 0, failed: 0 })
+        jest.useRealTimers()
+        expect(mailOutbox.update.mock.calls.map(([query]: any) => query.data.status)).toEqual([undefined, 'SENT', 'SENT', 'SENT'])
+        expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('mail-1 was sent'))
+
+        // Left SENDING with its delivery started, it is not picked again once stale
+        const [{ where }] = mailOutbox.findMany.mock.calls[1]
+        expect(where.OR).toContainEqual({ status: 'SENDING', deliveryStartedAt: null, updatedAt: { lt: expect.any(Date) } })
+        expect(sendSpy).toHaveBeenCalledTimes(1)
+        mailOutbox.update.mockReset()
+    })
+
+    test('should double the retry delay up to its maximum', ()=>{
+        expect([1, 2, 3].map(getRetryDelayMs)).toEqual([60 * 1000, 2 * 60 * 1000, 4 * 60 * 1000])
+        expect(getRetryDelayMs(20)).toBe(6 * 60 * 60 * 1000)
+    })
+});
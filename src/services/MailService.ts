@@ -0,0 +1,182 @@
+import { MailOutbox, Prisma } from "@prisma/client";
+import { getConfig } from "$config/index";
+import { sendMail } from "$pkg/mailer";
+import { MailRecipients, MailTemplate, SentMail } from "$pkg/mailer/interfaces";
+import { renderMail, toAddressList } from "$pkg/mailer/utils";
+import Logger from "$pkg/logger";
+import { TransactionClient, prisma } from "$utils/prisma.utils";
+
+export const MAIL_RETRY_BASE_DELAY_MS = 60 * 1000
+export const MAIL_RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000
+
+// A mail SENDING for this long was claimed by a process that stopped, it is sent again unless its delivery started
+const STALE_SENDING_MS = 10 * 60 * 1000
+
+// Tries to record a sent mail, 1s then 2s apart, a sent mail is never put back in the queue because its update failed
+const MARK_SENT_ATTEMPTS = 3
+const MARK_SENT_RETRY_DELAY_MS = 1000
+
+export interface MailOutboxReport {
+    sent: number
+    // Failed, sent again after a delay
+    retried: number
+    // Failed MAIL_MAX_ATTEMPTS times, never sent again
+    failed: number
+}
+
+// 1 minute after the first failure, doubled after each one, up to 6 hours
+export function getRetryDelayMs(attempts: number): number {
+    return Math.min(MAIL_RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAIL_RETRY_MAX_DELAY_MS)
+}
+
+function joinAddresses(addresses: string | string[] | undefined): string | null {
+    return toAddressList(addresses).join(", ") || null
+}
+
+/**
+ * Render a template and queue it in the outbox, the `send-mail-outbox` cron job delivers it within a minute
+ * and retries it with backoff when the transport fails.
+ * Pass the transaction of the change the mail is about, so the mail is only queued when the change is committed :
+ *
+ *   await prisma.$transaction(async (tx) => {
+ *       const user = await tx.user.create({ data })
+ *       await queueMail(AccountVerificationMail, { fullName: user.fullName, ... }, { to: user.email }, tx)
+ *   })
+ *
+ * @param template   - e.g. PasswordResetMail from pkg/mailer/templates.ts
+ * @param variables  - variables of the template
+ * @param recipients - to, cc and bcc, a list or a comma separated string
+ * @param tx         - transaction client, defaults to prisma
+ * @throws when the mail cannot be stored, meant to be called inside the try of another service
+ */
+export async function queueMail<V extends object>(template: MailTemplate<V>, variables: V, recipients: MailRecipients, tx: TransactionClient = prisma): Promise<MailOutbox> {
+    const to = joinAddresses(recipients.to)
+    if (!to) throw new Error(`MailService.queueMail : ${template.name} has no recipient`)
+
+    const { subject, html, text } = renderMail(template, variables)
+
+    return tx.mailOutbox.create({
+        data: {
+            template: template.name,
+            from: getConfig().mail.from,
+            to,
+            cc: joinAddresses(recipients.cc),
+            bcc: joinAddresses(recipients.bcc),
+            subject,
+            html,
+            text
+        }
+    })
+}
+
+/*
+  A stale SENDING mail is only sent again when its process stopped before calling the transport,
+  once `deliveryStartedAt` is set it may have been delivered : it stays SENDING rather than being sent twice
+*/
+function dueMailsWhere(now: Date): Prisma.MailOutboxWhereInput {
+    return {
+        OR: [
+            { status: "PENDING", nextAttemptAt: { lte: now } },
+            { status: "SENDING", deliveryStartedAt: null, updatedAt: { lt: new Date(now.getTime() - STALE_SENDING_MS) } }
+        ]
+    }
+}
+
+// Atomic, when several processes pick the same mail only one sends it
+async function claimMail(id: string, now: Date): Promise<MailOutbox | null> {
+    const { count } = await prisma.mailOutbox.updateMany({
+        where: { id, ...dueMailsWhere(now) },
+        data: { status: "SENDING", attempts: { increment: 1 } }
+    })
+
+    return count === 1 ? prisma.mailOutbox.findUnique({ where: { id } }) : null
+}
+
+async function markSent(mail: MailOutbox, sent: SentMail): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            await prisma.mailOutbox.update({
+                where: { id: mail.id },
+                data: { status: "SENT", messageId: sent.messageId, sentAt: sent.sentAt, lastError: null }
+            })
+            return
+        } catch (err) {
+            if (attempt >= MARK_SENT_ATTEMPTS) throw err
+            await new Promise((resolve) => setTimeout(resolve, MARK_SENT_RETRY_DELAY_MS * attempt))
+        }
+    }
+}
+
+async function deliverMail(mail: MailOutbox, report: MailOutboxReport): Promise<void> {
+    await prisma.mailOutbox.update({
+        where: { id: mail.id },
+        data: { deliveryStartedAt: new Date() }
+    })
+
+    let sent: SentMail
+    try {
+        sent = await sendMail({
+            from: mail.from,
+            to: mail.to,
+            cc: mail.cc ?? undefined,
+            bcc: mail.bcc ?? undefined,
+            subject: mail.subject,
+            html: mail.html,
+            text: mail.text
+        })
+    } catch (err) {
+        const error = err instanceof Error ? err.message : String(err)
+        const failed = mail.attempts >= getConfig().mail.maxAttempts
+
+        await prisma.mailOutbox.update({
+            where: { id: mail.id },
+            // The transport refused the mail, it was not delivered
+            data: failed
+                ? { status: "FAILED", lastError: error, deliveryStartedAt: null }
+                : { status: "PENDING", lastError: error, deliveryStartedAt: null, nextAttemptAt: new Date(Date.now() + getRetryDelayMs(mail.attempts)) }
+        })
+
+        if (failed) {
+            report.failed++
+            Logger.error(`MailService.deliverMail : ${mail.template ?? "mail"} ${mail.id} failed ${mail.attempts} times, giving up : ${error}`)
+        } else {
+            report.retried++
+            Logger.warn(`MailService.deliverMail : ${mail.template ?? "mail"} ${mail.id} failed (attempt ${mail.attempts}), retrying later : ${error}`)
+        }
+        return
+    }
+
+    report.sent++
+    try {
+        await markSent(mail, sent)
+    } catch (err) {
+        // Left SENDING with its delivery started, it is never sent again
+        Logger.error(`MailService.deliverMail : ${mail.template ?? "mail"} ${mail.id} was sent (${sent.messageId}) but could not be marked SENT : ${err}`)
+    }
+}
+
+/**
+ * Send the due mails of the outbox, oldest first
+ * @param limit  - mails sent by this call, the next call sends the rest
+ * @param signal - stops before the next mail once aborted
+ */
+export async function processOutbox(limit = 50, signal?: AbortSignal): Promise<MailOutboxReport> {
+    const report: MailOutboxReport = { sent: 0, retried: 0, failed: 0 }
+    const now = new Date()
+
+    const dueMails = await prisma.mailOutbox.findMany({
+        where: dueMailsWhere(now),
+        orderBy: { nextAttemptAt: "asc" },
+        take: limit,
+        select: { id: true }
+    })
+
+    for (const { id } of dueMails) {
+        if (signal?.aborted) break
+
+        const mail = await claimMail(id, now)
+        if (mail) await deliverMail(mail, report)
+    }
+
+    return report
+}
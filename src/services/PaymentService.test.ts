@@ -0,0 +1,140 @@
+import { MidtransNotificationDTO } from "$entities/Payment";
+import { createSignatureKey } from "$pkg/midtrans/utils";
+import { prisma } from "$utils/prisma.utils";
+import { Prisma } from "@prisma/client";
+import { canTransitionPayment, getPaymentStatus } from "./helpers/PaymentStatus";
+import { handleMidtransNotification, onPaymentStatusChange } from "./PaymentService";
+
+jest.mock("$utils/prisma.utils", () => {
+    const prisma: any = {
+        payment: {
+            findUnique: jest.fn(),
+            findUniqueOrThrow: jest.fn(),
+            update: jest.fn(),
+            updateMany: jest.fn()
+        },
+        paymentNotification: {
+            createMany: jest.fn()
+        }
+    }
+    prisma.$transaction = (callback: (tx: any) => Promise<any>) => callback(prisma)
+    return { prisma }
+})
+
+jest.mock("$config/index", () => ({
+    getConfig: () => ({ midtrans: { serverKey: "SB-Mid-server-test", isProduction: false } })
+}))
+
+describe('test handleMidtransNotification', ()=>{
+    const payment = (prisma as any).payment
+    const paymentNotification = (prisma as any).paymentNotification
+    const listener = jest.fn()
+    onPaymentStatusChange(listener)
+
+    // Signed like Midtrans does
+    const notification = (transaction_status: MidtransNotificationDTO["transaction_status"], gross_amount = "10000.00"): MidtransNotificationDTO => ({
+        order_id: "order-1",
+        status_code: "200",
+        gross_amount,
+        signature_key: createSignatureKey("order-1", "200", gross_amount, "SB-Mid-server-test"),
+        transaction_id: "trx-1",
+        transaction_status,
+        payment_type: "bank_transfer"
+    })
+
+    // Stored payment, in `status`, the updates echo their data
+    const storedPayment = (status: string) => {
+        const stored = { id: "payment-1", orderId: "order-1", amount: new Prisma.Decimal(10000), status, paymentType: null }
+        payment.findUnique.mockResolvedValue(stored)
+        payment.findUniqueOrThrow.mockResolvedValueOnce(stored)
+        payment.update.mockImplementation(({ data }: any) => Promise.resolve({ ...stored, ...data }))
+    }
+
+    beforeEach(()=>{
+        jest.resetAllMocks()
+        paymentNotification.createMany.mockResolvedValue({ count: 1 })
+        payment.updateMany.mockResolvedValue({ count: 1 })
+    })
+
+    test('should refuse a notification with an invalid signature key', async ()=>{
+        const result = await handleMidtransNotification({ ...notification("settlement"), signature_key: "forged" })
+
+        expect(result.status).toBe(false)
+        expect(result.err).toMatchObject({ code: 403, errorCode: "INVALID_SIGNATURE_KEY" })
+        expect(payment.findUnique).not.toHaveBeenCalled()
+    })
+
+    test('should refuse a notification for another amount', async ()=>{
+        storedPayment("PENDING")
+
+        const result = await handleMidtransNotification(notification("settlement", "1.00"))
+
+        expect(result.err).toMatchObject({ code: 400, errorCode: "PAYMENT_AMOUNT_MISMATCH" })
+        expect(paymentNotification.createMany).not.toHaveBeenCalled()
+    })
+
+    test('should record the notification and move the payment to its status', async ()=>{
+        storedPayment("PENDING")
+        payment.findUniqueOrThrow.mockResolvedValueOnce({ id: "payment-1", orderId: "order-1", status: "PAID" })
+
+        const result = await handleMidtransNotification(notification("settlement"))
+
+        expect(result.data).toEqual({ orderId: "order-1", status: "PAID", outcome: "updated" })
+        expect(paymentNotification.createMany.mock.calls[0][0].data[0]).toMatchObject({ paymentId: "payment-1", idempotencyKey: "trx-1:settlement::", transactionStatus: "settlement" })
+        expect(payment.updateMany.mock.calls[0][0]).toMatchObject({
+            where: { id: "payment-1", status: "PENDING" },
+            data: { status: "PAID", transactionId: "trx-1", transactionStatus: "settlement", paymentType: "bank_transfer", paidAt: expect.any(Date) }
+        })
+        expect(listener).toHaveBeenCalledWith(expect.objectContaining({ status: "PAID" }), "PENDING", prisma)
+    })
+
+    test('should do nothing for a notification sent again', async ()=>{
+        storedPayment("PAID")
+        paymentNotification.createMany.mockResolvedValue({ count: 0 })
+
+        const result = await handleMidtransNotification(notification("settlement"))
+
+        expect(result.data).toEqual({ orderId: "order-1", status: "PAID", outcome: "duplicate" })
+        expect(payment.update).not.toHaveBeenCalled()
+        expect(payment.updateMany).not.toHaveBeenCalled()
+        expect(listener).not.toHaveBeenCalled()
+    })
+
+    test('should ignore a notification that would send the payment back', async ()=>{
+        storedPayment("PAID")
+
+        const result = await handleMidtransNotification(notification("pending"))
+
+        expect(result.data).toEqual({ orderId: "order-1", status: "PAID", outcome: "ignored" })
+        expect(payment.updateMany).not.toHaveBeenCalled()
+        expect(listener).not.toHaveBeenCalled()
+    })
+
+    test('should only update the details when the status stays the same', async ()=>{
+        storedPayment("PAID")
+
+        const result = await handleMidtransNotification(notification("capture"))
+
+        expect(result.data).toMatchObject({ status: "PAID", outcome: "unchanged" })
+        expect(payment.update.mock.calls[0][0].data).toEqual({ transactionId: "trx-1", transactionStatus: "capture", fraudStatus: null, paymentType: "bank_transfer" })
+        expect(listener).not.toHaveBeenCalled()
+    })
+});
+
+describe('test getPaymentStatus', ()=>{
+    test('should keep a challenged card payment pending until it is reviewed', ()=>{
+        expect(getPaymentStatus("capture", "accept")).toBe("PAID")
+        expect(getPaymentStatus("capture", "challenge")).toBe("PENDING")
+        expect(getPaymentStatus("capture", "deny")).toBe("FAILED")
+        expect(getPaymentStatus("partial_refund")).toBe("PARTIALLY_REFUNDED")
+    })
+
+    test('should follow the chargebacks of a paid payment', ()=>{
+        expect(getPaymentStatus("partial_chargeback")).toBe("PARTIALLY_CHARGED_BACK")
+        expect(getPaymentStatus("chargeback")).toBe("CHARGED_BACK")
+        expect(canTransitionPayment("PAID", "CHARGED_BACK")).toBe(true)
+        expect(canTransitionPayment("PARTIALLY_CHARGED_BACK", "CHARGED_BACK")).toBe(true)
+        expect(canTransitionPayment("PENDING", "CHARGED_BACK")).toBe(false)
+        expect(canTransitionPayment("CHARGED_BACK", "PAID")).toBe(false)
+    })
+});
@@ -0,0 +1,233 @@
+import { Payment, PaymentStatus, Prisma } from "@prisma/client";
+import { BadRequestWithMessage, ForbiddenWithMessage, NotFoundWithMessage, ServiceResponse } from "$entities/Service";
+import { CreatePaymentDTO, MidtransNotificationDTO, PaymentNotificationOutcome, PaymentNotificationResultDTO, PaymentStatusListener, RefundPaymentDTO } from "$entities/Payment";
+import MidtransInstance from "$pkg/midtrans";
+import * as MidtransCoreApi from "$pkg/midtrans/coreAPI";
+import { MidtransTransaction } from "$pkg/midtrans/interfaces";
+import { createSnapTransaction } from "$pkg/midtrans/snap";
+import { getMidtransErrorMessage, isMidtransError, isValidSignatureKey } from "$pkg/midtrans/utils";
+import Logger from "$pkg/logger";
+import { TransactionClient, prisma } from "$utils/prisma.utils";
+import { handleServiceError } from "$utils/prisma_error.utils";
+import { canTransitionPayment, getPaymentStatus } from "./helpers/PaymentStatus";
+
+const listeners: PaymentStatusListener[] = []
+
+/**
+ * React to the status changes of the payments, no listener is registered by default.
+ * E.g. in the service of the orders, once the app has an Order model :
+ *   onPaymentStatusChange(async (payment, previousStatus, tx) => {
+ *       if (payment.status === "PAID") await tx.order.update({ where: { id: payment.orderId }, data: { status: "PAID" } })
+ *   })
+ * @param listener - runs inside the transaction of the change
+ */
+export function onPaymentStatusChange(listener: PaymentStatusListener): void {
+    listeners.push(listener)
+}
+
+// Midtrans errors are answered with their message, anything else is a 500
+function handlePaymentError(scope: string, err: unknown): ServiceResponse<{}> {
+    if (isMidtransError(err) && err.httpStatusCode) {
+        Logger.warn(`${scope} : Midtrans answered ${err.httpStatusCode} : ${getMidtransErrorMessage(err)}`)
+        return BadRequestWithMessage(`Midtrans : ${getMidtransErrorMessage(err)}`, "MIDTRANS_REQUEST_FAILED")
+    }
+
+    return handleServiceError(scope, err)
+}
+
+// A notification sent again has the same key, a new status or a new partial refund has a new one
+function getNotificationKey(notification: MidtransTransaction): string {
+    return [notification.transaction_id, notification.transaction_status, notification.fraud_status ?? "", notification.refund_amount ?? ""].join(":")
+}
+
+/*
+  Move a payment to the status of a Midtrans transaction, when the state machine allows it (see helpers/PaymentStatus.ts).
+  The update only matches the status that was read, a concurrent change makes it throw so the caller tries again
+*/
+async function applyTransaction(tx: TransactionClient, payment: Payment, transaction: MidtransTransaction): Promise<{ payment: Payment, outcome: Exclude<PaymentNotificationOutcome, "duplicate"> }> {
+    const status = getPaymentStatus(transaction.transaction_status, transaction.fraud_status)
+    const details = {
+        transactionId: transaction.transaction_id,
+        transactionStatus: transaction.transaction_status,
+        fraudStatus: transaction.fraud_status ?? null,
+        paymentType: transaction.payment_type ?? payment.paymentType
+    }
+
+    if (status === payment.status && status !== "PARTIALLY_REFUNDED") {
+        return { payment: await tx.payment.update({ where: { id: payment.id }, data: details }), outcome: "unchanged" }
+    }
+
+    if (!canTransitionPayment(payment.status, status)) {
+        Logger.warn(`PaymentService : ignored ${transaction.transaction_status} for order ${payment.orderId}, the payment is ${payment.status}`)
+        return { payment, outcome: "ignored" }
+    }
+
+    const { count } = await tx.payment.updateMany({
+        where: { id: payment.id, status: payment.status },
+        data: {
+            ...details,
+            status,
+            paidAt: status === "PAID" ? new Date() : undefined,
+            refundedAmount: transaction.refund_amount ? new Prisma.Decimal(transaction.refund_amount) : undefined
+        }
+    })
+    if (count === 0) throw new Error(`PaymentService : payment of order ${payment.orderId} changed concurrently`)
+
+    const updated = await tx.payment.findUniqueOrThrow({ where: { id: payment.id } })
+    for (const listener of listeners) await listener(updated, payment.status, tx)
+
+    Logger.info(`PaymentService : order ${payment.orderId} ${payment.status} -> ${status}`)
+    return { payment: updated, outcome: "updated" }
+}
+
+/**
+ * Create the Snap transaction of an order and store its payment, send the customer to `snapRedirectUrl`
+ * (or open the Snap popup with `snapToken`), the status follows the notifications of Midtrans
+ * @returns the PENDING payment, 400 MIDTRANS_REQUEST_FAILED when Midtrans refuses it, e.g. an order_id already used
+ */
+export async function createSnapPayment(data: CreatePaymentDTO): Promise<ServiceResponse<Payment | {}>> {
+    try {
+        const snap = await createSnapTransaction({
+            transaction_details: { order_id: data.orderId, gross_amount: data.amount },
+            item_details: data.items,
+            customer_details: data.customer,
+            expiry: data.expiryMinutes ? { unit: "minute", duration: data.expiryMinutes } : undefined
+        })
+
+        const payment = await prisma.payment.create({
+            data: {
+                orderId: data.orderId,
+                userId: data.userId,
+                amount: data.amount,
+                snapToken: snap.token,
+                snapRedirectUrl: snap.redirect_url
+            }
+        })
+
+        return {
+            status: true,
+            data: payment
+        }
+    } catch (err) {
+        return handlePaymentError("PaymentService.createSnapPayment", err)
+    }
+}
+
+/**
+ * Handle the HTTP notification of Midtrans : check its signature, record it once and move the payment
+ * to its status. Answering an error makes Midtrans send it again later
+ * @returns the outcome, 403 INVALID_SIGNATURE_KEY, 404 PAYMENT_NOT_FOUND or 400 PAYMENT_AMOUNT_MISMATCH
+ */
+export async function handleMidtransNotification(notification: MidtransNotificationDTO): Promise<ServiceResponse<PaymentNotificationResultDTO | {}>> {
+    try {
+        if (!isValidSignatureKey(notification, MidtransInstance.getServerKey())) {
+            Logger.warn(`PaymentService.handleMidtransNotification : invalid signature key for order ${notification.order_id}`)
+            return ForbiddenWithMessage("Invalid signature key", "INVALID_SIGNATURE_KEY")
+        }
+
+        const payment = await prisma.payment.findUnique({ where: { orderId: notification.order_id } })
+        if (!payment) return NotFoundWithMessage(`Payment of order ${notification.order_id} not found`, "PAYMENT_NOT_FOUND")
+
+        if (!new Prisma.Decimal(notification.gross_amount).equals(payment.amount)) {
+            Logger.error(`PaymentService.handleMidtransNotification : order ${payment.orderId} notified ${notification.gross_amount} for a payment of ${payment.amount}`)
+            return BadRequestWithMessage("gross_amount does not match the payment", "PAYMENT_AMOUNT_MISMATCH")
+        }
+
+        const result = await prisma.$transaction(async (tx) => {
+            // The unique key makes a notification sent again, even concurrently, skip everything
+            const { count } = await tx.paymentNotification.createMany({
+                data: [{
+                    paymentId: payment.id,
+                    idempotencyKey: getNotificationKey(notification),
+                    transactionStatus: notification.transaction_status,
+                    payload: notification as unknown as Prisma.InputJsonObject
+                }],
+                skipDuplicates: true
+            })
+            if (count === 0) return { payment, outcome: "duplicate" as const }
+
+            return applyTransaction(tx, await tx.payment.findUniqueOrThrow({ where: { id: payment.id } }), notification)
+        })
+
+        return {
+            status: true,
+            data: { orderId: payment.orderId, status: result.payment.status, outcome: result.outcome }
+        }
+    } catch (err) {
+        return handleServiceError("PaymentService.handleMidtransNotification", err)
+    }
+}
+
+async function findPayment(orderId: string): Promise<Payment | null> {
+    return prisma.payment.findUnique({ where: { orderId } })
+}
+
+// Apply a transaction answered by the Core API, like a notification
+async function applyCoreApiTransaction(payment: Payment, transaction: MidtransTransaction): Promise<Payment> {
+    const result = await prisma.$transaction(async (tx) =>
+        applyTransaction(tx, await tx.payment.findUniqueOrThrow({ where: { id: payment.id } }), transaction)
+    )
+
+    return result.payment
+}
+
+// Ask Midtrans for the status of a payment, e.g. when a notification was missed
+export async function refreshPaymentStatus(orderId: string): Promise<ServiceResponse<Payment | {}>> {
+    try {
+        const payment = await findPayment(orderId)
+        if (!payment) return NotFoundWithMessage(`Payment of order ${orderId} not found`, "PAYMENT_NOT_FOUND")
+
+        const transaction = await MidtransCoreApi.getTransactionStatus(orderId)
+
+        return {
+            status: true,
+            data: await applyCoreApiTransaction(payment, transaction)
+        }
+    } catch (err) {
+        return handlePaymentError("PaymentService.refreshPaymentStatus", err)
+    }
+}
+
+export async function cancelPayment(orderId: string): Promise<ServiceResponse<Payment | {}>> {
+    try {
+        const payment = await findPayment(orderId)
+        if (!payment) return NotFoundWithMessage(`Payment of order ${orderId} not found`, "PAYMENT_NOT_FOUND")
+        if (!canTransitionPayment(payment.status, "CANCELLED")) {
+            return BadRequestWithMessage(`A ${payment.status} payment cannot be cancelled`, "PAYMENT_NOT_CANCELLABLE")
+        }
+
+        const transaction = await MidtransCoreApi.cancelTransaction(orderId)
+
+        return {
+            status: true,
+            data: await applyCoreApiTransaction(payment, transaction)
+        }
+    } catch (err) {
+        return handlePaymentError("PaymentService.cancelPayment", err)
+    }
+}
+
+const REFUNDABLE_STATUSES: PaymentStatus[] = ["PAID", "PARTIALLY_REFUNDED"]
+
+/**
+ * Refund a paid payment, entirely or partially
+ * @returns the payment, REFUNDED or PARTIALLY_REFUNDED, 400 PAYMENT_NOT_REFUNDABLE when it is not paid
+ */
+export async function refundPayment(orderId: string, data: RefundPaymentDTO): Promise<ServiceResponse<Payment | {}>> {
+    try {
+        const payment = await findPayment(orderId)
+        if (!payment) return NotFoundWithMessage(`Payment of order ${orderId} not found`, "PAYMENT_NOT_FOUND")
+        if (!REFUNDABLE_STATUSES.includes(payment.status)) {
+            return BadRequestWithMessage(`A ${payment.status} payment cannot be refunded`, "PAYMENT_NOT_REFUNDABLE")
+        }
+
+        const transaction = await MidtransCoreApi.refundTransaction(orderId, { amount: data.amount, reason: data.reason })
+
+        return {
+            status: true,
+            data: await applyCoreApiTransaction(payment, transaction)
+        }
+    } catch (err) {
+        return handlePaymentError("PaymentService.refundPayment", err)
+    }
+}
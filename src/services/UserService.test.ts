@@ -0,0 +1,43 @@
+import { prisma } from "$utils/prisma.utils";
+import { update } from "./UserService";
+
+jest.mock("$utils/prisma.utils", () => {
+    const prisma: any = {
+        user: {
+            findUnique: jest.fn(),
+            update: jest.fn()
+        },
+        refreshToken: {
+            updateMany: jest.fn()
+        }
+    }
+    prisma.$transaction = (callback: (tx: any) => Promise<any>) => callback(prisma)
+    return { prisma }
+})
+
+describe('test UserService.update', ()=>{
+    const user = (prisma as any).user
+    const refreshToken = (prisma as any).refreshToken
+    const storedUser = { id: 'user-1', fullName: 'Tom', email: 'tom@mail.com', role: 'USER', password: 'hash' }
+    const requester = { id: 'user-1', email: 'tom@mail.com', fullName: 'Tom', role: 'USER' }
+
+    beforeEach(()=>{
+        jest.resetAllMocks()
+        user.findUnique.mockResolvedValue(storedUser)
+        user.update.mockImplementation(({ data }: any) => Promise.resolve({ ...storedUser, ...data }))
+    })
+
+    test('should revoke every session of the user when the password changes', async ()=>{
+        const result = await update('user-1', { password: 'newpassword123' }, requester)
+
+        expect(result.data).not.toHaveProperty('password')
+        expect(refreshToken.updateMany).toHaveBeenCalledWith({ where: { userId: 'user-1', revokedAt: null }, data: { revokedAt: expect.any(Date) } })
+    })
+
+    test('should keep the sessions when the password is unchanged', async ()=>{
+        await update('user-1', { fullName: 'Tommy' }, requester)
+
+        expect(user.update.mock.calls[0][0].data).toEqual({ fullName: 'Tommy', email: undefined, password: undefined })
+        expect(refreshToken.updateMany).not.toHaveBeenCalled()
+    })
+});
@@ -0,0 +1,125 @@
+import { FilteringQueryV2, PagedList } from "$entities/Query";
+import { ConflictWithMessage, ForbiddenWithMessage, INVALID_ID_SERVICE_RESPONSE, ServiceResponse } from "$entities/Service";
+import { UserJWTDAO, UserUpdateDTO, exclude } from "$entities/User";
+import { isOwnerOrHasPermission } from "$utils/permission.utils";
+import { prisma } from "$utils/prisma.utils";
+import { handleServiceError } from "$utils/prisma_error.utils";
+import { revokeUserSessions } from "./AuthService";
+import { User } from "@prisma/client";
+import bcrypt from "bcrypt";
+import { findManyPaged } from "./helpers/PagedQuery";
+
+const SALT_ROUNDS = 12
+
+// Every column except `password`
+const USER_PUBLIC_SELECT = {
+    id:true,
+    fullName:true,
+    email:true,
+    role:true,
+    createdAt:true,
+    updatedAt:true
+}
+
+export async function getAll(filters:FilteringQueryV2):Promise<ServiceResponse<PagedList<Omit<User, "password">[]> | {}>>{
+    return findManyPaged<Omit<User, "password">>(prisma.user, filters, {
+        select:USER_PUBLIC_SELECT,
+        policy:{ tiebreaker:"id" }
+    })
+}
+
+export async function getById(id:string, requester:UserJWTDAO):Promise<ServiceResponse<Omit<User, "password"> | {}>>{
+    try{
+        if (!isOwnerOrHasPermission(requester, id, "user:read")) return ForbiddenWithMessage("You can only view your own account")
+
+        const user = await prisma.user.findUnique({
+            where:{
+                id
+            }
+        })
+
+        if (!user) return INVALID_ID_SERVICE_RESPONSE
+
+        return {
+            status:true,
+            data:exclude(user, "password")
+        }
+    }catch(err){
+        return handleServiceError("UserService.getById", err)
+    }
+}
+
+export async function update(id:string, data:UserUpdateDTO, requester:UserJWTDAO):Promise<ServiceResponse<Omit<User, "password"> | {}>>{
+    try{
+        if (!isOwnerOrHasPermission(requester, id, "user:update")) return ForbiddenWithMessage("You can only update your own account")
+
+        const user = await prisma.user.findUnique({
+            where:{
+                id
+            }
+        })
+
+        if (!user) return INVALID_ID_SERVICE_RESPONSE
+
+        if (data.email && data.email !== user.email) {
+            const emailOwner = await prisma.user.findUnique({
+                where:{
+                    email:data.email
+                }
+            })
+            if (emailOwner) return ConflictWithMessage("Email is already registered", "EMAIL_ALREADY_REGISTERED")
+        }
+
+        const password = data.password ? await bcrypt.hash(data.password, SALT_ROUNDS) : undefined
+
+        const updatedUser = await prisma.$transaction(async (tx) => {
+            const updatedUser = await tx.user.update({
+                where:{
+                    id
+                },
+                data:{
+                    fullName:data.fullName,
+                    email:data.email,
+                    password
+                }
+            })
+
+            // Refresh tokens issued with the old password must not outlive it
+            if (password) await revokeUserSessions(id, tx)
+
+            return updatedUser
+        })
+
+        return {
+            status:true,
+            data:exclude(updatedUser, "password")
+        }
+    }catch(err){
+        return handleServiceError("UserService.update", err)
+    }
+}
+
+export async function deleteUser(id:string):Promise<ServiceResponse<{}>>{
+    try{
+        const user = await prisma.user.findUnique({
+            where:{
+                id
+            }
+        })
+
+        if (!user) return INVALID_ID_SERVICE_RESPONSE
+
+        await prisma.user.delete({
+            where:{
+                id
+            }
+        })
+
+        return {
+            status:true,
+            data:{}
+        }
+    }catch(err){
+        return handleServiceError("UserService.deleteUser", err)
+    }
+}
@@ -0,0 +1,92 @@
+import { FilteringQuery } from "$entities/Query";
+import { buildFilterQuery, buildFilterQueryLimitOffset } from "./FilterQuery";
+import { convertFilteringQueryToV2 } from "./FilterQueryAdapter";
+import * as Legacy from "./__fixtures__/LegacyFilterQuery";
+
+describe('convertFilteringQueryToV2', () => {
+    test('should convert a FilteringQuery to FilteringQueryV2', () => {
+        expect(convertFilteringQueryToV2({
+            filters: {
+                status: { values: ['PAID', 'SENT'] },
+                category: { values: ['Food'] },
+                empty: { values: [] },
+            },
+            searchKey: 'customer.name',
+            searchValue: 'jo',
+            orderKey: 'total',
+            page: 3,
+            rows: 20,
+            startRange: '2024-01-01',
+            endRange: '2024-01-31',
+            cursor: '2024-01-01T00:00:00.000Z',
+        })).toEqual({
+            page: 3,
+            rows: 20,
+            filters: {
+                status: { in: ['PAID', 'SENT'] },
+                category: 'Food',
+                empty: { in: [] },
+            },
+            searchFilters: { 'customer.name': 'jo' },
+            rangedFilters: [{ key: 'createdAt', start: new Date('2024-01-01'), end: new Date('2024-01-31T23:59:59') }],
+            orderBy: [{ key: 'total', rule: 'asc' }],
+        });
+    });
+});
+
+// The V1 builders must keep returning what they returned before running on the V2 engine
+describe('V1 to V2 parity', () => {
+    const queries: Record<string, FilteringQuery> = {
+        'no params': {},
+        'filters': {
+            filters: {
+                status: { values: ['PAID', 'SENT'] },
+                category: { values: ['Food'] },
+                empty: { values: [] },
+                'customer.type': { values: ['VIP', 'REGULAR'] },
+                'customer.tags': { values: [] },
+            },
+        },
+        'search': { searchKey: 'name', searchValue: 'jo' },
+        'relation search': { searchKey: 'customer.name', searchValue: 'jo' },
+        'search without value': { searchKey: 'name' },
+        'order key': { orderKey: 'total' },
+        'order key and rule': { orderKey: 'total', orderRule: 'desc' },
+        'page': { page: 3 },
+        'page and rows': { page: 3, rows: 20 },
+        'rows without page': { rows: 20 },
+        'range': { startRange: '2024-01-01', endRange: '2024-01-31' },
+        'range without end': { startRange: '2024-01-01' },
+        'cursor': { cursor: '2024-01-01T00:00:00.000Z', rows: 5 },
+        'previous cursor': { cursor: '2024-01-01T00:00:00.000Z', cursorDirection: 'previous' },
+        'everything': {
+            filters: { status: { values: ['PAID', 'SENT'] }, category: { values: ['Food'] } },
+            searchKey: 'customer.name',
+            searchValue: 'jo',
+            orderKey: 'total',
+            orderRule: 'desc',
+            page: 3,
+            rows: 20,
+            startRange: '2024-01-01',
+            endRange: '2024-01-31',
+            cursor: '2024-01-01T00:00:00.000Z',
+            cursorDirection: 'previous',
+        },
+    }
+
+    test.each(Object.entries(queries))('should build the same cursor query for %s', (name, query) => {
+        expect(buildFilterQuery(query)).toEqual(Legacy.buildFilterQuery(query));
+    });
+
+    test.each(Object.entries(queries))('should build the same limit offset query for %s', (name, query) => {
+        expect(buildFilterQueryLimitOffset(query)).toEqual(Legacy.buildFilterQueryLimitOffset(query));
+    });
+
+    test('should filter a relation on a single value with an equality instead of a list', () => {
+        const query = { filters: { 'customer.city': { values: ['Jakarta'] } } };
+
+        expect(Legacy.buildFilterQueryLimitOffset(query).where.AND).toEqual([{ customer: { city: ['Jakarta'] } }]);
+        expect(buildFilterQueryLimitOffset(query).where.AND).toEqual([{ customer: { city: 'Jakarta' } }]);
+        expect(buildFilterQuery(query).where.AND).toEqual([{ customer: { city: 'Jakarta' } }]);
+    });
+});
@@ -1,94 +1,26 @@
 import { FilteringQuery } from "$entities/Query";
+import { convertFilteringQueryToV2 } from "./FilterQueryAdapter";
+import { buildFilterQueryLimitOffsetV2 } from "./FilterQueryV2";
 
-export function buildFilterQuery(filter: FilteringQuery) {
-  let usedFilter: any = {
-    where: {
-      AND: [],
-    },
-    orderBy: {
-      createdAt: "desc",
-    },
-  };
-
-  if (filter.filters) {
-    for (const key in filter.filters) {
-      const inArray = filter.filters[key].values.map((val) => val);
-      if (key.includes(".")) {
-        let [relation, column] = key.split(".");
-        if(inArray.length === 1){
-          usedFilter.where.AND.push({
-            [`${relation}`]: {
-              [`${column}`]: inArray,
-            },
-          });
-        }else{
-          usedFilter.where.AND.push({
-            [`${relation}`]: {
-              [`${column}`]: {
-                in: inArray,
-              },
-            },
-          });
-        }
-      } else {
-         if(inArray.length === 1){
-          usedFilter.where.AND.push({
-            [`${key}`]: inArray[0]
-          })
-        }
-        else{
-          usedFilter.where.AND.push({
-            [`${key}`]: {
-              in: inArray,
-            },
-          });
-        }
-      }
-    }
-  }
-  if (filter.orderKey) {
-    const orderRule = filter.orderRule ?? "asc";
-    usedFilter = {
-      ...usedFilter,
-      orderBy: {
-        [`${filter.orderKey}`]: `${orderRule}`,
-      },
-    };
-  }
+/*
+  Legacy V1 builders, kept for the endpoints that still receive V1 params.
+  Both run on the V2 engine through `convertFilteringQueryToV2` and return the same prisma arguments as before,
+  except that a single value filter on a relation (`customer.city`) is now an equality instead of an invalid list.
 
-  if (filter.searchKey && filter.searchValue) {
-    if (filter.searchKey.includes(".")) {
-      let [relation, column] = filter.searchKey.split(".");
-      usedFilter.where.AND.push({
-        [`${relation}`]: {
-          [`${column}`]: {
-            contains: `${filter.searchValue}`,
-          },
-        },
-      });
-    } else {
-      usedFilter.where.AND.push({
-        [`${filter.searchKey}`]: {
-          contains: `${filter.searchValue}`,
-        },
-      });
-    }
-  }
+  Please use V2 for new endpoints :)
+*/
 
-  if (filter.startRange) {
-    if (filter.endRange) {
-      usedFilter.where.AND.push({
-        createdAt: {
-          lte: new Date(`${filter.endRange}T23:59:59`),
-          gte: new Date(filter.startRange),
-        },
-      });
-    }
-  }
+export function buildFilterQuery(filter: FilteringQuery) {
+  const { where, orderBy } = buildFilterQueryLimitOffsetV2(convertFilteringQueryToV2({
+    ...filter,
+    orderKey: filter.orderKey ?? "createdAt",
+    orderRule: filter.orderKey ? filter.orderRule : "desc",
+  }));
 
-  const initRows = filter.rows ? filter.rows + 1 : 11;
+  let usedFilter: any = { where, orderBy };
 
-  let rows = initRows;
+  // One extra row to know whether there is a next page
+  let rows = filter.rows ? filter.rows + 1 : 11;
 
   if (filter.cursor) {
     if (filter.cursorDirection && filter.cursorDirection == "previous") {
@@ -102,116 +34,28 @@ export function buildFilterQuery(filter: FilteringQuery) {
     };
   }
 
-  usedFilter = {
+  return {
     take: rows,
     ...usedFilter,
   };
-
-  return usedFilter;
 }
 
 
-
 export function buildFilterQueryLimitOffset(filter: FilteringQuery) {
-  let usedFilter: any = {
-    where: {
-      AND: [],
-    },
-    orderBy: {
-    },
+  // startRange / endRange were never applied here
+  const { where, orderBy } = buildFilterQueryLimitOffsetV2(convertFilteringQueryToV2({
+    ...filter,
+    startRange: undefined,
+    endRange: undefined,
+  }));
+
+  // `rows` is only used along with `page`, like in V1
+  const take = filter.page && filter.rows ? filter.rows : 10;
+
+  return {
+    ...(filter.page ? { skip: (filter.page - 1) * take } : {}),
+    take,
+    where,
+    orderBy,
   };
-
-  if (filter.filters) {
-    for (const key in filter.filters) {
-      const inArray = filter.filters[key].values.map((val) => val);
-      if (key.includes(".")) {
-        let [relation, column] = key.split(".");
-        if(inArray.length === 1){
-          usedFilter.where.AND.push({
-            [`${relation}`]: {
-              [`${column}`]: inArray,
-            },
-          });
-        }else{
-          usedFilter.where.AND.push({
-            [`${relation}`]: {
-              [`${column}`]: {
-                in: inArray,
-              },
-            },
-          });
-        }
-      } else {
-        if(inArray.length === 1){
-          usedFilter.where.AND.push({
-            [`${key}`]: inArray[0]
-          })
-        }
-        else{
-          usedFilter.where.AND.push({
-            [`${key}`]: {
-              in: inArray,
-            },
-          });
-        }
-      }
-    }
-  }
-  if (filter.orderKey) {
-    const orderRule = filter.orderRule ?? "asc";
-    usedFilter = {
-      ...usedFilter,
-      orderBy: {
-        [`${filter.orderKey}`]: `${orderRule}`,
-      },
-    };
-  }
-
-  if (filter.searchKey && filter.searchValue) {
-    if (filter.searchKey.includes(".")) {
-      let [relation, column] = filter.searchKey.split(".");
-      usedFilter.where.AND.push({
-        [`${relation}`]: {
-          [`${column}`]: {
-            contains: `${filter.searchValue}`,
-          },
-        },
-      });
-    } else {
-      usedFilter.where.AND.push({
-        [`${filter.searchKey}`]: {
-          contains: `${filter.searchValue}`,
-        },
-      });
-    }
-  }
-
-
-
-  if(filter.page){
-    if(filter.rows){
-        usedFilter = {
-            skip: (filter.page - 1)  * filter.rows,
-            take: filter.rows,
-            ...usedFilter
-        }
-    }else{
-        usedFilter = {
-            skip: 10 * (filter.page - 1),
-            take: 10 ,
-            ...usedFilter
-        }
-    }
-  }else{
-    usedFilter = {
-        take:10,
-        ...usedFilter
-    }
-  }
-
-  usedFilter = {
-    ...usedFilter,
-  };
-
-  return usedFilter;
 }
@@ -0,0 +1,53 @@
+import { FilteringQuery, FilteringQueryV2 } from "$entities/Query";
+
+/*
+  Translation layer from the legacy V1 FilteringQuery to FilteringQueryV2,
+  so clients that still send V1 params are served by the V2 builders :
+
+    filters : { "status" : { "values" : ["PAID"] } }          -> filters : { "status" : "PAID" }
+    filters : { "status" : { "values" : ["PAID", "SENT"] } }  -> filters : { "status" : { "in" : ["PAID", "SENT"] } }
+    filters : { "status" : { "values" : [] } }                -> filters : { "status" : { "in" : [] } }, matches nothing like in V1
+    searchKey=name&searchValue=jo                              -> searchFilters : { "name" : "jo" }
+    startRange=2024-01-01&endRange=2024-01-31                  -> rangedFilters : [{ key : "createdAt", start : 2024-01-01, end : 2024-01-31 23:59:59 }]
+    orderKey=name&orderRule=desc                               -> orderBy : [{ key : "name", rule : "desc" }]
+
+  V1 cursors are raw `createdAt` values, not the opaque keyset cursors of V2, so `cursor` and `cursorDirection`
+  are not translated, `buildFilterQuery` in FilterQuery.ts keeps handling them.
+*/
+export function convertFilteringQueryToV2(filter: FilteringQuery): FilteringQueryV2 {
+  const result: FilteringQueryV2 = {};
+
+  if (filter.page) result.page = filter.page;
+  if (filter.rows) result.rows = filter.rows;
+
+  if (filter.filters) {
+    const filters: Record<string, any> = {};
+    for (const key in filter.filters) {
+      const values = filter.filters[key]?.values;
+      if (!Array.isArray(values)) continue;
+
+      // V1 used SQL's `in` for multiple values, keep it instead of V2's OR chaining so the query is the same
+      filters[key] = values.length === 1 ? values[0] : { in: values };
+    }
+    result.filters = filters;
+  }
+
+  if (filter.searchKey && filter.searchValue) {
+    result.searchFilters = { [filter.searchKey]: filter.searchValue };
+  }
+
+  if (filter.startRange && filter.endRange) {
+    // V1 ranges are always on `createdAt`, and include the whole end day (server time)
+    result.rangedFilters = [{
+      key: "createdAt",
+      start: new Date(filter.startRange),
+      end: new Date(`${filter.endRange}T23:59:59`),
+    }];
+  }
+
+  if (filter.orderKey) {
+    result.orderBy = [{ key: filter.orderKey, rule: filter.orderRule === "desc" ? "desc" : "asc" }];
+  }
+
+  return result;
+}
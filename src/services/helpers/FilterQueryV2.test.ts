@@ -1,5 +1,5 @@
 import { FilteringQueryV2 } from "$entities/Query";
-import { buildFilterQueryLimitOffsetV2 } from "./FilterQueryV2";
+import { buildCursorPagedList, buildFilterQueryCursorV2, buildFilterQueryLimitOffsetV2, decodeCursor, encodeCursor, getCursorSortErrors } from "./FilterQueryV2";
 
 
 describe('test buildFilterQueryLimitOffsetV2', ()=>{
@@ -196,4 +196,301 @@ describe('test buildFilterQueryLimitOffsetV2', ()=>{
         
         expect(result).toMatchObject(expectedWhereResult)
     })
-})
\ No newline at end of file
+})
+
+describe('test buildFilterQueryLimitOffsetV2 with operator filters', ()=>{
+    test('should translate comparison and string operators', ()=>{
+        const result = buildFilterQueryLimitOffsetV2({
+            filters :{
+                'status' : {not : 'CANCELLED'},
+                'price' : {gt : 100, lte : 500},
+                'name' : {startsWith : 'Jo'},
+                'code' : {endsWith : '-01'},
+                'category' : {in : ['Food', 'Drink']},
+                'type' : {notIn : ['Service']},
+                'description' : {contains : 'fresh'}
+            }
+        })
+
+        expect(result.where.AND).toEqual([
+            {'status': {not : 'CANCELLED'}},
+            {'price': {gt : 100, lte : 500}},
+            {'name': {startsWith : 'Jo'}},
+            {'code': {endsWith : '-01'}},
+            {'category': {in : ['Food', 'Drink']}},
+            {'type': {notIn : ['Service']}},
+            {'description': {contains : 'fresh'}}
+        ])
+    })
+
+    test('should translate isNull operator', ()=>{
+        const result = buildFilterQueryLimitOffsetV2({
+            filters :{
+                'deletedAt' : {isNull : true},
+                'verifiedAt' : {isNull : false}
+            }
+        })
+
+        expect(result.where.AND).toEqual([
+            {'deletedAt': null},
+            {'verifiedAt': {not : null}}
+        ])
+    })
+
+    test('should convert date values on comparison operators of the policy dates only', ()=>{
+        const result = buildFilterQueryLimitOffsetV2({
+            filters :{
+                'createdAt' : {gte : '2024-01-01'},
+                'order.paidAt' : {lt : '2024-02-01T00:00:00Z'},
+                'code' : {gte : '2024-01-01'}
+            }
+        }, {
+            dates: ['createdAt', 'order.paidAt']
+        })
+
+        expect(result.where.AND).toEqual([
+            {'createdAt': {gte : new Date('2024-01-01')}},
+            {'order': {'paidAt': {lt : new Date('2024-02-01T00:00:00Z')}}},
+            {'code': {gte : '2024-01-01'}}
+        ])
+    })
+
+    test('should support operators on relations and inside multi value filters', ()=>{
+        const result = buildFilterQueryLimitOffsetV2({
+            filters :{
+                'customer.city' : {not : 'Jakarta'},
+                'price' : [{lt : 10}, {gt : 100}]
+            }
+        })
+
+        expect(result.where.AND).toEqual([
+            {'customer': {'city': {not : 'Jakarta'}}},
+            {
+                OR:[
+                    {'price': {lt : 10}},
+                    {'price': {gt : 100}}
+                ]
+            }
+        ])
+    })
+
+    test('should keep treating objects with unknown keys as plain values', ()=>{
+        const result = buildFilterQueryLimitOffsetV2({
+            filters :{
+                'metadata' : {color : 'red'}
+            }
+        })
+
+        expect(result.where.AND).toEqual([
+            {'metadata': {color : 'red'}}
+        ])
+    })
+})
+
+
+describe('test buildFilterQueryLimitOffsetV2 with relational filters', ()=>{
+    test('should build multi-level relation filters', ()=>{
+        const result = buildFilterQueryLimitOffsetV2({
+            filters :{
+                'order.customer.city' : 'Jakarta',
+                'order.customer.type' : ['VIP', 'REGULAR']
+            },
+            searchFilters :{
+                'order.customer.name' : 'Bud'
+            }
+        })
+
+        expect(result.where.AND).toEqual([
+            {'order': {'customer': {'city': 'Jakarta'}}},
+            {
+                OR:[
+                    {'order': {'customer': {'type': 'VIP'}}},
+                    {'order': {'customer': {'type': 'REGULAR'}}}
+                ]
+            },
+            {'order': {'customer': {'name': {contains : 'Bud'}}}}
+        ])
+    })
+
+    test('should use `some` for to-many relations declared in the policy', ()=>{
+        const result = buildFilterQueryLimitOffsetV2({
+            filters :{
+                'tags.name' : 'Promo',
+                'order.items.product.name' : {startsWith : 'Kopi'}
+            }
+        }, {
+            toManyRelations: ['tags', 'order.items']
+        })
+
+        expect(result.where.AND).toEqual([
+            {'tags': {some: {'name': 'Promo'}}},
+            {'order': {'items': {some: {'product': {'name': {startsWith : 'Kopi'}}}}}}
+        ])
+    })
+
+    test('should let the client pick every or none', ()=>{
+        const result = buildFilterQueryLimitOffsetV2({
+            filters :{
+                'tags.every.isActive' : true,
+                'tags.none.name' : 'Hidden'
+            },
+            rangedFilters :[{
+                key : 'items.some.price',
+                start : 10,
+                end : 20
+            }]
+        }, {
+            toManyRelations: ['tags', 'items']
+        })
+
+        expect(result.where.AND).toEqual([
+            {'tags': {every: {'isActive': true}}},
+            {'tags': {none: {'name': 'Hidden'}}},
+            {'items': {some: {'price': {gte: 10, lte: 20}}}}
+        ])
+    })
+})
+
+
+
+describe('test cursor pagination V2', ()=>{
+    const createdAt = new Date('2024-01-01T00:00:00.000Z')
+    const specs = [{key: 'createdAt', rule: 'desc' as const}, {key: 'id', rule: 'desc' as const}]
+    const rows = [1, 2, 3, 4].map((id)=>({id: `${id}`, createdAt}))
+
+    test('should encode and decode dates inside the cursor', ()=>{
+        const cursor = encodeCursor({id: '10', createdAt}, specs)
+
+        expect(decodeCursor(cursor)).toEqual({
+            keys: ['createdAt', 'id'],
+            values: [createdAt, '10']
+        })
+        expect(decodeCursor('not-a-cursor')).toBeNull()
+    })
+
+    test('should build the first page with the tiebreaker and one extra row', ()=>{
+        const result = buildFilterQueryCursorV2({
+            filters: {'status': 'PAID'},
+            orderKey: 'createdAt',
+            orderRule: 'desc',
+            rows: 3
+        })
+
+        expect(result).toEqual({
+            where: {AND: [{'status': 'PAID'}]},
+            orderBy: [{createdAt: 'desc'}, {id: 'desc'}],
+            take: 4
+        })
+    })
+
+    test('should build a keyset condition for the next page', ()=>{
+        const cursor = encodeCursor({id: '10', createdAt}, specs)
+        const result = buildFilterQueryCursorV2({orderKey: 'createdAt', orderRule: 'desc', rows: 3, cursor})
+
+        expect(result.where.AND).toEqual([{
+            OR: [
+                {AND: [{createdAt: {lt: createdAt}}]},
+                {AND: [{createdAt: createdAt}, {id: {lt: '10'}}]}
+            ]
+        }])
+        expect(result.orderBy).toEqual([{createdAt: 'desc'}, {id: 'desc'}])
+    })
+
+    test('should read backwards for the previous page', ()=>{
+        const cursor = encodeCursor({id: '10', createdAt}, specs)
+        const result = buildFilterQueryCursorV2({orderKey: 'createdAt', orderRule: 'desc', rows: 3, cursor, cursorDirection: 'previous'})
+
+        expect(result.where.AND).toEqual([{
+            OR: [
+                {AND: [{createdAt: {gt: createdAt}}]},
+                {AND: [{createdAt: createdAt}, {id: {gt: '10'}}]}
+            ]
+        }])
+        expect(result.orderBy).toEqual([{createdAt: 'asc'}, {id: 'asc'}])
+    })
+
+    test('should refuse nullable sort keys, the tiebreaker included', ()=>{
+        expect(getCursorSortErrors({orderKey: 'createdAt'}, {nullable: ['paidAt']})).toEqual([])
+        expect(getCursorSortErrors({orderKey: 'paidAt'}, {nullable: ['paidAt']})).toEqual([
+            {field: 'orderBy', message: "paidAt can be null, it can't be used with a cursor"}
+        ])
+        expect(getCursorSortErrors({}, {tiebreaker: 'code', nullable: ['code']})).toHaveLength(1)
+        expect(getCursorSortErrors({orderBy: [{key: 'customer.name'}]})).toEqual([
+            {field: 'orderBy', message: "relational order keys and nulls placement can't be used with a cursor"}
+        ])
+    })
+
+    test('should return cursors only for pages that exist', ()=>{
+        const firstPage = buildCursorPagedList(rows, {orderKey: 'createdAt', orderRule: 'desc', rows: 3})
+        expect(firstPage.entries.map((row)=>row.id)).toEqual(['1', '2', '3'])
+        expect(firstPage.prevCursor).toBeNull()
+        expect(decodeCursor(firstPage.nextCursor!)!.values).toEqual([createdAt, '3'])
+
+        const lastPage = buildCursorPagedList(rows.slice(0, 2), {orderKey: 'createdAt', orderRule: 'desc', rows: 3, cursor: firstPage.nextCursor!})
+        expect(lastPage.nextCursor).toBeNull()
+        expect(decodeCursor(lastPage.prevCursor!)!.values).toEqual([createdAt, '1'])
+    })
+
+    test('should flip rows back when going to the previous page', ()=>{
+        const cursor = encodeCursor({id: '5', createdAt}, specs)
+        const page = buildCursorPagedList([...rows].reverse(), {orderKey: 'createdAt', orderRule: 'desc', rows: 3, cursor, cursorDirection: 'previous'})
+
+        expect(page.entries.map((row)=>row.id)).toEqual(['2', '3', '4'])
+        expect(page.prevCursor).not.toBeNull()
+        expect(decodeCursor(page.nextCursor!)!.values).toEqual([createdAt, '4'])
+    })
+})
+
+
+
+describe('test buildFilterQueryLimitOffsetV2 with multi column sorting', ()=>{
+    test('should only add the tiebreaker declared by the policy', ()=>{
+        expect(buildFilterQueryLimitOffsetV2({}).orderBy).toEqual({})
+        expect(buildFilterQueryLimitOffsetV2({orderKey: 'name'}).orderBy).toEqual({name: 'asc'})
+        expect(buildFilterQueryLimitOffsetV2({}, {tiebreaker: 'uuid'}).orderBy).toEqual({uuid: 'asc'})
+        expect(buildFilterQueryLimitOffsetV2({orderKey: 'name', orderRule: 'desc'}, {tiebreaker: 'id'}).orderBy).toEqual([{name: 'desc'}, {id: 'desc'}])
+    })
+
+    test('should keep the order of the specs and translate relation and null placement', ()=>{
+        const result = buildFilterQueryLimitOffsetV2({
+            orderBy: [
+                {key: 'status', rule: 'asc'},
+                {key: 'customer.name', rule: 'desc', nulls: 'last'},
+                {key: 'items._count', rule: 'desc'}
+            ]
+        }, {tiebreaker: 'id'})
+
+        expect(result.orderBy).toEqual([
+            {status: 'asc'},
+            {customer: {name: {sort: 'desc', nulls: 'last'}}},
+            {items: {_count: 'desc'}},
+            {id: 'desc'}
+        ])
+    })
+
+    test('should not add the tiebreaker twice and prefer orderBy over orderKey', ()=>{
+        const result = buildFilterQueryLimitOffsetV2({
+            orderKey: 'name',
+            orderBy: [{key: 'createdAt', rule: 'desc'}, {key: 'id', rule: 'asc'}]
+        }, {tiebreaker: 'id'})
+
+        expect(result.orderBy).toEqual([{createdAt: 'desc'}, {id: 'asc'}])
+    })
+
+    test('should build a keyset condition over every sort column', ()=>{
+        const createdAt = new Date('2024-01-01T00:00:00.000Z')
+        const specs = [{key: 'status', rule: 'asc' as const}, {key: 'createdAt', rule: 'desc' as const}]
+        const cursor = encodeCursor({status: 'PAID', createdAt, id: '9'}, [...specs, {key: 'id', rule: 'desc'}])
+
+        const result = buildFilterQueryCursorV2({orderBy: specs, cursor})
+
+        expect(result.orderBy).toEqual([{status: 'asc'}, {createdAt: 'desc'}, {id: 'desc'}])
+        expect(result.where.AND).toEqual([{
+            OR: [
+                {AND: [{status: {gt: 'PAID'}}]},
+                {AND: [{status: 'PAID'}, {createdAt: {lt: createdAt}}]},
+                {AND: [{status: 'PAID'}, {createdAt: createdAt}, {id: {lt: '9'}}]}
+            ]
+        }])
+    })
+})
@@ -1,7 +1,94 @@
-import { FilteringQueryV2, RangedFilter } from "$entities/Query";
+import { CursorDirection, CursorPagedList, FILTER_OPERATORS, FilterOperator, FilteringPolicyV2, FilteringQueryV2, OperatorFilter, OrderSpec, RangedFilter } from "$entities/Query";
+import { ErrorStructure, generateErrorStructure } from "$validations/helper";
 
+const COMPARISON_OPERATORS: FilterOperator[] = ["equals", "not", "gt", "gte", "lt", "lte"]
 
-function buildSearchQuery(searchFilters:Record<string, any | any[] | null>):any[]{
+export function isOperatorFilter(value: any): value is OperatorFilter {
+  if (value == null || typeof value !== "object" || Array.isArray(value) || value instanceof Date) return false;
+
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every((key) => (FILTER_OPERATORS as readonly string[]).includes(key));
+}
+
+/*
+  Translate an operator filter into a prisma condition :
+    { "not" : "CANCELLED" } -> { not : "CANCELLED" }
+    { "isNull" : true } -> null
+    { "isNull" : false } -> { not : null }
+    { "gte" : "2024-01-01" } -> { gte : Date(2024-01-01) }, only on the `dates` of the filtering policy
+*/
+function buildOperatorCondition(operatorFilter: OperatorFilter, isDate: boolean): any {
+  const { isNull, ...operators } = operatorFilter;
+
+  if (isNull === true) return null;
+
+  const condition: any = {};
+  for (const operator in operators) {
+    const value = operators[operator as Exclude<FilterOperator, "isNull">];
+    condition[operator] = isDate && COMPARISON_OPERATORS.includes(operator as FilterOperator) && isValidDate(value) ? new Date(value) : value;
+  }
+
+  // `not` can only be used once, and `not: value` already excludes nulls in SQL
+  if (isNull === false && condition.not === undefined) condition.not = null;
+
+  return condition;
+}
+
+function buildFilterCondition(value: any, isDate: boolean): any {
+  return isOperatorFilter(value) ? buildOperatorCondition(value, isDate) : value;
+}
+
+
+const RELATION_QUANTIFIERS = ["some", "every", "none"]
+
+export function isRelationQuantifier(segment: string): boolean {
+  return RELATION_QUANTIFIERS.includes(segment);
+}
+
+// `tags.every.name` -> `tags.name`, used to match keys against the filtering policy
+export function stripRelationQuantifiers(key: string): string {
+  const segments = key.split(".");
+  const column = segments.pop();
+  return [...segments.filter((segment) => !isRelationQuantifier(segment)), column].join(".");
+}
+
+/*
+  Build a (possibly relational) condition from a dotted key, with any depth :
+    "name" -> { name : condition }
+    "order.customer.city" -> { order : { customer : { city : condition } } }
+
+  To-many relations are wrapped with prisma's `some` / `every` / `none`, the client picks one by
+  putting it after the relation name (e.g. `tags.every.name`), otherwise `some` is used
+  for relations declared in `toManyRelations` of the filtering policy.
+*/
+export function buildRelationCondition(key: string, condition: any, toManyRelations: string[] = []): any {
+  const segments = key.split(".");
+  const column = segments.pop() as string;
+
+  const relations: { name: string; path: string; quantifier?: string }[] = [];
+  const path: string[] = [];
+  for (const segment of segments) {
+    if (isRelationQuantifier(segment) && relations.length > 0) {
+      relations[relations.length - 1].quantifier = segment;
+      continue;
+    }
+    path.push(segment);
+    relations.push({ name: segment, path: path.join(".") });
+  }
+
+  let result: any = { [column]: condition };
+  for (let i = relations.length - 1; i >= 0; i--) {
+    const relation = relations[i];
+    const quantifier = relation.quantifier ?? (toManyRelations.includes(relation.path) ? "some" : undefined);
+    result = {
+      [relation.name]: quantifier ? { [quantifier]: result } : result
+    };
+  }
+
+  return result;
+}
+
+function buildSearchQuery(searchFilters:Record<string, any | any[] | null>, toManyRelations:string[] = []):any[]{
   let whereClauseAndResult:any = [];
   let orQuerySearchArray:any[] = [];
   
@@ -12,33 +99,11 @@ function buildSearchQuery(searchFilters:Record<string, any | any[] | null>):any[
     //Additional null safe checking for guarantee
     if (valueToSearch == null) continue;
     
-    let searchQuery:any = {}
-    
-    if (key.includes(".")) {
-      let [relation, column] = key.split(".");
-
-      if(valueToSearch != null ){
-        searchQuery = {
-          [`${relation}`]:{
-            [`${column}`]: {
-              contains: valueToSearch
-            }
-          } 
-        }
-        isMultiKey ? orQuerySearchArray.push(searchQuery) : whereClauseAndResult.push(searchQuery)      
-      }
-      continue;
-    }
+    const searchQuery = buildRelationCondition(key, {
+      contains: valueToSearch
+    }, toManyRelations)
 
-    if(valueToSearch != null ){
-      searchQuery = {
-        [`${key}`]: {
-          contains: valueToSearch
-        }
-      }
-      isMultiKey ? orQuerySearchArray.push(searchQuery) : whereClauseAndResult.push(searchQuery)
-    }
-    
+    isMultiKey ? orQuerySearchArray.push(searchQuery) : whereClauseAndResult.push(searchQuery)
   }
 
   if(isMultiKey){
@@ -50,7 +115,7 @@ function buildSearchQuery(searchFilters:Record<string, any | any[] | null>):any[
   return whereClauseAndResult;
 }
 
-function buildWhereQuery(filters:Record<string, any | any[] | null>):any[]{
+function buildWhereQuery(filters:Record<string, any | any[] | null>, toManyRelations:string[] = [], dates:string[] = []):any[]{
   let whereClauseAndResult:any = [];
   for (const key in filters) {
     const valueToFilter = filters[key];
@@ -58,49 +123,18 @@ function buildWhereQuery(filters:Record<string, any | any[] | null>):any[]{
     //Additional early null safe checking for guarantee
     if (valueToFilter == null) continue;
 
-    // Check for relational data filter (only 1 level is allowed)
-    if (key.includes(".")) {
-      let [relation, column] = key.split(".");
+    const isDate = dates.includes(stripRelationQuantifiers(key));
 
-      if(Array.isArray(valueToFilter) && valueToFilter != null ){
-        const orQueryArray = valueToFilter.map((value)=>(
-          {
-            [`${relation}`]:{
-              [`${column}`]: value
-            } 
-          }
-        ))
-        whereClauseAndResult.push({
-          OR:orQueryArray
-        })
-      }
-      
-      if(!Array.isArray(valueToFilter) && valueToFilter != null) {
-        whereClauseAndResult.push({
-            [`${relation}`]:{
-              [`${column}`]: valueToFilter
-            } 
-        })
-      }
-      continue;
-    }
-
-    if(Array.isArray(valueToFilter) && valueToFilter != null ){
-      const valueToFilterArray = valueToFilter;
-      const orQueryArray = valueToFilterArray.map((value)=>(
-        {
-          [`${key}`]: value
-        }
+    if(Array.isArray(valueToFilter)){
+      const orQueryArray = valueToFilter.map((value)=>(
+        buildRelationCondition(key, buildFilterCondition(value, isDate), toManyRelations)
       ))
       whereClauseAndResult.push({
         OR:orQueryArray
       })
-    } if(!Array.isArray(valueToFilter) && valueToFilter != null) {
-      whereClauseAndResult.push( {
-          [`${key}`]: valueToFilter
-        })
+    } else {
+      whereClauseAndResult.push(buildRelationCondition(key, buildFilterCondition(valueToFilter, isDate), toManyRelations))
     }
-    
   }
 
   return whereClauseAndResult
@@ -127,32 +161,58 @@ function parseAndCheckRangeFilter(range: RangedFilter): any {
   return range
 }
 
-function buildRangedFilter(rangedFilters:RangedFilter[]):any[]{
+function buildRangedFilter(rangedFilters:RangedFilter[], toManyRelations:string[] = []):any[]{
   const whereClauseAndResult:any[] = [];
 
   rangedFilters.forEach((range: RangedFilter) => {
     range = parseAndCheckRangeFilter(range)
-    whereClauseAndResult.push({
-      [`${range.key}`]:{
-        gte: range.start,
-        lte: range.end
-      }
-    })
+    whereClauseAndResult.push(buildRelationCondition(`${range.key}`, {
+      gte: range.start,
+      lte: range.end
+    }, toManyRelations))
   })
 
   return whereClauseAndResult
 }
 
 
-export function buildFilterQueryLimitOffsetV2(filter: FilteringQueryV2) {
-  let usedFilter: any = {
-    where: {
-      AND:[]
-    },
-    orderBy: {
-    },
-  };
+// `orderBy` takes precedence over the single column `orderKey` / `orderRule`
+export function getOrderSpecs(filter: FilteringQueryV2): OrderSpec[] {
+  if (filter.orderBy && filter.orderBy.length > 0) return filter.orderBy;
+  if (filter.orderKey) return [{ key: filter.orderKey, rule: filter.orderRule === "desc" ? "desc" : "asc" }];
+  return [];
+}
+
+/*
+  Translate sort specs into a prisma `orderBy` :
+    { key : "name", rule : "desc" } -> { name : "desc" }
+    { key : "name", nulls : "last" } -> { name : { sort : "asc", nulls : "last" } }
+    { key : "customer.name" } -> { customer : { name : "asc" } }
+    { key : "items._count" } -> { items : { _count : "asc" } }
+
+  One column stays a single object (`{}` without any), several columns become an array.
+  The policy's `tiebreaker`, when declared, is appended when it's not sorted on yet,
+  so rows with equal values always come back in the same order between pages.
+*/
+export function buildOrderBy(specs: OrderSpec[], policy: FilteringPolicyV2 = {}): any {
+  const orderBy = specs.map((spec) => {
+    const rule = spec.rule ?? "asc";
+    const sort = spec.nulls ? { sort: rule, nulls: spec.nulls } : rule;
+    return buildRelationCondition(spec.key, sort);
+  });
+
+  const tiebreaker = policy.tiebreaker;
+  if (tiebreaker && !specs.some((spec) => spec.key === tiebreaker)) {
+    const lastRule = specs.length > 0 ? specs[specs.length - 1].rule ?? "asc" : "asc";
+    orderBy.push({ [tiebreaker]: lastRule });
+  }
 
+  if (orderBy.length === 0) return {};
+  return orderBy.length === 1 ? orderBy[0] : orderBy;
+}
+
+
+function buildWhereClauseV2(filter: FilteringQueryV2, policy: FilteringPolicyV2):any[]{
   /* This is the `inference-engine` for dynamic filtering 
 
     in V2 both Searching and Filters are constructed in type of `ClauseFilterV2` 
@@ -163,6 +223,9 @@ export function buildFilterQueryLimitOffsetV2(filter: FilteringQueryV2) {
          "column" : ["value1", "value2"] -> multi value filter , in v1 we use SQL's in operator, but now we use OR chaining
          "column2" : "value" -> single value filter , we use WHERE = 
          "column3" : null -> we don't handle this, since this is just a placeholder from fe
+         "column4" : { "gt" : 100 } -> operator filter, see FILTER_OPERATORS in entities/Query.ts for the supported operators
+         "relation.nested.column" : "value" -> relational filter, any depth
+         "toManyRelation.every.column" : "value" -> to-many relational filter, with `some` | `every` | `none`
       }
     }
 
@@ -171,45 +234,52 @@ export function buildFilterQueryLimitOffsetV2(filter: FilteringQueryV2) {
 
   
   */
+  const toManyRelations = policy.toManyRelations ?? [];
+  let whereClauseAndResult:any[] = [];
+
   if (filter.filters) {
-    usedFilter.where.AND = buildWhereQuery(filter.filters)
+    whereClauseAndResult = buildWhereQuery(filter.filters, toManyRelations, policy.dates)
   }
   
   if(filter.searchFilters){
     
-    usedFilter.where.AND = buildSearchQuery(filter.searchFilters).reduce((arr,v)=>{
+    whereClauseAndResult = buildSearchQuery(filter.searchFilters, toManyRelations).reduce((arr,v)=>{
       arr.push(v)
       return arr
-    },usedFilter.where.AND)
+    },whereClauseAndResult)
   }
 
   if(filter.rangedFilters){
-    usedFilter.where.AND = buildRangedFilter(filter.rangedFilters).reduce((arr,v)=>{
+    whereClauseAndResult = buildRangedFilter(filter.rangedFilters, toManyRelations).reduce((arr,v)=>{
       arr.push(v)
       return arr
-    },usedFilter.where.AND)
+    },whereClauseAndResult)
   }
 
-  if (filter.orderKey) {
-    const orderRule = filter.orderRule ?? "asc";
-    usedFilter.orderBy = {
-        [`${filter.orderKey}`]: `${orderRule}`,
-      }
-  }
+  return whereClauseAndResult
+}
 
 
-  // Default is take 10 rows, page 1 (skip 0, means we are at page 1 at the paging result.)
-  let take = 10;
-  let skip = 0;
+/**
+ * Build prisma `findMany` arguments from a FilteringQueryV2
+ * @param filter - parsed filtering query, see `checkFilteringQueryV2`
+ * @param policy - optional filtering policy of the resource, its `toManyRelations` are used to build `some` filters by default
+ */
+export function buildFilterQueryLimitOffsetV2(filter: FilteringQueryV2, policy: FilteringPolicyV2 = {}) {
+  let usedFilter: any = {
+    where: {
+      AND:[]
+    },
+    orderBy: {},
+  };
 
-  if(filter.page){
-    if(filter.rows){
-      skip = (filter.page - 1)  * filter.rows;
-      take = filter.rows;
-    } else {
-      skip = 10 * (filter.page - 1);
-    }
-  } 
+  usedFilter.where.AND = buildWhereClauseV2(filter, policy)
+  usedFilter.orderBy = buildOrderBy(getOrderSpecs(filter), policy)
+
+
+  // Default is take 10 rows, page 1 (skip 0, means we are at page 1 at the paging result.)
+  const take = filter.rows ?? 10;
+  const skip = ((filter.page ?? 1) - 1) * take;
 
   usedFilter.take = take;
   usedFilter.skip = skip;
@@ -217,3 +287,176 @@ export function buildFilterQueryLimitOffsetV2(filter: FilteringQueryV2) {
 
   return usedFilter;
 }
+
+
+/*
+  Cursor based pagination
+
+  Instead of skip/take, the page is located with a keyset condition on the sort keys of the last (or first) row
+  of the previous page, so the database can seek through the index no matter how deep the page is.
+  The sort always ends with the policy's `tiebreaker` so the order is total and stable, it defaults to `id` here,
+  models without an `id` column have to declare one to be paged with cursors.
+
+  Sort keys used with cursors must be non nullable scalar columns of the model : the keyset condition compares
+  with gt / lt, which never match null, so rows with a null sort value would be skipped or repeated between pages.
+  Relational keys, `nulls` placement and the `nullable` columns of the policy are rejected by `getCursorSortErrors`.
+*/
+export interface CursorSortSpec {
+  key: string
+  rule: "asc" | "desc"
+}
+
+const DEFAULT_CURSOR_TIEBREAKER = "id"
+
+interface DecodedCursor {
+  keys: string[]
+  values: any[]
+}
+
+export function buildCursorSortSpecs(filter: FilteringQueryV2, policy: FilteringPolicyV2 = {}): CursorSortSpec[] {
+  const tiebreaker = policy.tiebreaker ?? DEFAULT_CURSOR_TIEBREAKER;
+
+  const specs: CursorSortSpec[] = getOrderSpecs(filter).map((spec) => ({
+    key: spec.key,
+    rule: spec.rule ?? "asc"
+  }));
+
+  if (!specs.some((spec) => spec.key === tiebreaker)) {
+    specs.push({ key: tiebreaker, rule: specs.length > 0 ? specs[specs.length - 1].rule : "asc" });
+  }
+
+  return specs;
+}
+
+export function getCursorSortErrors(filter: FilteringQueryV2, policy: FilteringPolicyV2 = {}): ErrorStructure[] {
+  const errors: ErrorStructure[] = [];
+
+  if (getOrderSpecs(filter).some((spec) => `${spec.key}`.includes(".") || spec.nulls)) {
+    errors.push(generateErrorStructure("orderBy", "relational order keys and nulls placement can't be used with a cursor"));
+  }
+
+  buildCursorSortSpecs(filter, policy)
+    .filter((spec) => policy.nullable?.includes(spec.key))
+    .forEach((spec) => {
+      errors.push(generateErrorStructure("orderBy", `${spec.key} can be null, it can't be used with a cursor`));
+    });
+
+  return errors;
+}
+
+export function encodeCursor(row: Record<string, any>, specs: CursorSortSpec[]): string {
+  const values = specs.map((spec) => {
+    const value = row[spec.key];
+    return value instanceof Date ? { $date: value.toISOString() } : value;
+  });
+
+  return Buffer.from(JSON.stringify({ keys: specs.map((spec) => spec.key), values })).toString("base64url");
+}
+
+// Returns null when the cursor was not produced by `encodeCursor`
+export function decodeCursor(cursor: string): DecodedCursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (!Array.isArray(decoded.keys) || !Array.isArray(decoded.values) || decoded.keys.length !== decoded.values.length) return null;
+
+    return {
+      keys: decoded.keys,
+      values: decoded.values.map((value: any) => (value && typeof value === "object" && "$date" in value ? new Date(value.$date) : value)),
+    };
+  } catch (err) {
+    return null;
+  }
+}
+
+export function isCursorMatchingSort(cursor: DecodedCursor, specs: CursorSortSpec[]): boolean {
+  return cursor.keys.length === specs.length && specs.every((spec, index) => cursor.keys[index] === spec.key);
+}
+
+function getCursorDirection(filter: FilteringQueryV2): CursorDirection {
+  // Without a cursor there is nothing to go back from
+  return filter.cursor && filter.cursorDirection === "previous" ? "previous" : "next";
+}
+
+/*
+  For sort (a asc, id asc) and cursor values (x, y) going forward :
+    (a > x) OR (a = x AND id > y)
+*/
+function buildKeysetCondition(specs: CursorSortSpec[], values: any[], direction: CursorDirection): any {
+  return {
+    OR: specs.map((spec, index) => {
+      const isForward = (spec.rule === "asc") === (direction === "next");
+      return {
+        AND: [
+          ...specs.slice(0, index).map((previousSpec, previousIndex) => ({
+            [previousSpec.key]: values[previousIndex]
+          })),
+          {
+            [spec.key]: {
+              [isForward ? "gt" : "lt"]: values[index]
+            }
+          }
+        ]
+      };
+    })
+  };
+}
+
+/**
+ * Build prisma `findMany` arguments for cursor based pagination
+ * it fetches one extra row to know whether another page exists, pass the result to `buildCursorPagedList`
+ * @param filter - parsed filtering query, `cursor` and `cursorDirection` locate the page
+ * @param policy - optional filtering policy of the resource
+ */
+export function buildFilterQueryCursorV2(filter: FilteringQueryV2, policy: FilteringPolicyV2 = {}) {
+  const specs = buildCursorSortSpecs(filter, policy);
+  const direction = getCursorDirection(filter);
+  const rows = filter.rows ?? 10;
+
+  const whereClauseAndResult = buildWhereClauseV2(filter, policy);
+
+  if (filter.cursor) {
+    const cursor = decodeCursor(filter.cursor);
+    if (cursor && isCursorMatchingSort(cursor, specs)) {
+      whereClauseAndResult.push(buildKeysetCondition(specs, cursor.values, direction));
+    }
+  }
+
+  // The previous page is read backwards from the cursor, then flipped back in buildCursorPagedList
+  const orderBy = specs.map((spec) => ({
+    [spec.key]: direction === "previous" ? (spec.rule === "asc" ? "desc" : "asc") : spec.rule
+  }));
+
+  return {
+    where: {
+      AND: whereClauseAndResult
+    },
+    orderBy,
+    take: rows + 1,
+  };
+}
+
+/**
+ * Turn the rows fetched with `buildFilterQueryCursorV2` into a page with its cursors
+ * @param rows - rows returned by prisma
+ * @param filter - the same filtering query used to build the prisma arguments
+ * @param policy - the same filtering policy used to build the prisma arguments
+ */
+export function buildCursorPagedList<T extends Record<string, any>>(rows: T[], filter: FilteringQueryV2, policy: FilteringPolicyV2 = {}): CursorPagedList<T[]> {
+  const specs = buildCursorSortSpecs(filter, policy);
+  const direction = getCursorDirection(filter);
+  const take = filter.rows ?? 10;
+
+  const hasMore = rows.length > take;
+  const entries = rows.slice(0, take);
+  if (direction === "previous") entries.reverse();
+
+  // Coming from a cursor means there is a page on the side we came from
+  const hasNext = direction === "next" ? hasMore : true;
+  const hasPrev = direction === "previous" ? hasMore : Boolean(filter.cursor);
+
+  return {
+    entries,
+    nextCursor: hasNext && entries.length > 0 ? encodeCursor(entries[entries.length - 1], specs) : null,
+    prevCursor: hasPrev && entries.length > 0 ? encodeCursor(entries[0], specs) : null,
+  };
+}
@@ -0,0 +1,109 @@
+import { decodeCursor } from "./FilterQueryV2";
+import { findManyCursorPaged, findManyPaged } from "./PagedQuery";
+
+jest.mock("$utils/prisma.utils", () => ({
+    prisma: {
+        $transaction: (queries: Promise<any>[]) => Promise.all(queries)
+    }
+}))
+
+describe('test findManyPaged', ()=>{
+    const entries = [{id: '1'}, {id: '2'}]
+
+    const mockDelegate = (totalData: number) => ({
+        count: jest.fn().mockResolvedValue(totalData),
+        findMany: jest.fn().mockResolvedValue(entries)
+    })
+
+    test('should return the paged list with its metadata', async ()=>{
+        const delegate = mockDelegate(45)
+        const result = await findManyPaged(delegate as any, {page: 2, rows: 20})
+
+        expect(result).toEqual({
+            status: true,
+            data: {
+                entries,
+                totalData: 45,
+                totalPage: 3,
+                page: 2,
+                rows: 20,
+                hasNext: true
+            }
+        })
+    })
+
+    test('should combine the base where with the client filters', async ()=>{
+        const delegate = mockDelegate(2)
+        const result = await findManyPaged(delegate as any, {filters: {status: 'PAID'}}, {
+            where: {userId: 'user-1'},
+            select: {id: true}
+        })
+
+        const expectedWhere = {AND: [{userId: 'user-1'}, {status: 'PAID'}]}
+        expect(delegate.count).toHaveBeenCalledWith({where: expectedWhere})
+        expect(delegate.findMany).toHaveBeenCalledWith(expect.objectContaining({
+            where: expectedWhere,
+            select: {id: true},
+            take: 10,
+            skip: 0
+        }))
+        expect(result.data).toMatchObject({totalPage: 1, page: 1, hasNext: false})
+    })
+
+    test('should only send the projection that is given', async ()=>{
+        const delegate = mockDelegate(2)
+        await findManyPaged(delegate as any, {}, {include: {orders: true}})
+
+        expect(delegate.findMany.mock.calls[0][0]).toHaveProperty('include', {orders: true})
+        expect(delegate.findMany.mock.calls[0][0]).not.toHaveProperty('select')
+    })
+
+    test('should refuse a cursor instead of ignoring it', async ()=>{
+        const delegate = mockDelegate(2)
+        const result = await findManyPaged(delegate as any, {cursor: 'abc'})
+
+        expect(result.err).toMatchObject({code: 400, errorCode: 'INVALID_QUERY', errors: [{field: 'cursor', message: 'this list is paged with page and rows, not with a cursor'}]})
+        expect(delegate.findMany).not.toHaveBeenCalled()
+    })
+
+    test('should return an internal server error when the query fails', async ()=>{
+        const delegate = {
+            count: jest.fn().mockRejectedValue(new Error('db down')),
+            findMany: jest.fn().mockResolvedValue([])
+        }
+        const result = await findManyPaged(delegate as any, {})
+
+        expect(result.status).toBe(false)
+        expect(result.err?.code).toBe(500)
+    })
+})
+
+describe('test findManyCursorPaged', ()=>{
+    const rows = [1, 2, 3].map((id)=>({id: `${id}`, name: `Item ${id}`}))
+
+    test('should fetch one extra row and return the cursors of the page', async ()=>{
+        const delegate = {count: jest.fn(), findMany: jest.fn().mockResolvedValue(rows)}
+        const result = await findManyCursorPaged(delegate as any, {orderKey: 'name', rows: 2}, {where: {userId: 'user-1'}, select: {id: true, name: true}})
+
+        expect(delegate.findMany).toHaveBeenCalledWith({
+            where: {AND: [{userId: 'user-1'}]},
+            orderBy: [{name: 'asc'}, {id: 'asc'}],
+            take: 3,
+            select: {id: true, name: true}
+        })
+        expect(delegate.count).not.toHaveBeenCalled()
+
+        const page = result.data as any
+        expect(page.entries).toEqual(rows.slice(0, 2))
+        expect(page.prevCursor).toBeNull()
+        expect(decodeCursor(page.nextCursor)!.values).toEqual(['Item 2', '2'])
+    })
+
+    test('should refuse a sort on a nullable column, even on the first page', async ()=>{
+        const delegate = {count: jest.fn(), findMany: jest.fn()}
+        const result = await findManyCursorPaged(delegate as any, {orderKey: 'paidAt'}, {policy: {nullable: ['paidAt']}})
+
+        expect(result.err).toMatchObject({code: 400, errorCode: 'INVALID_QUERY'})
+        expect(delegate.findMany).not.toHaveBeenCalled()
+    })
+})
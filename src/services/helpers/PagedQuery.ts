@@ -0,0 +1,112 @@
+import { CursorPagedList, FilteringPolicyV2, FilteringQueryV2, PagedList, QueryProjection } from "$entities/Query";
+import { BadRequestWithMessage, ServiceResponse } from "$entities/Service";
+import { prisma } from "$utils/prisma.utils";
+import { handleServiceError } from "$utils/prisma_error.utils";
+import { Prisma } from "@prisma/client";
+import { generateErrorStructure } from "$validations/helper";
+import { buildCursorPagedList, buildFilterQueryCursorV2, buildFilterQueryLimitOffsetV2, getCursorSortErrors } from "./FilterQueryV2";
+
+// Any prisma model delegate, e.g. `prisma.user`
+export interface PagedQueryDelegate<T> {
+  // Typed with `where` only, so the count resolves to a number and not to the counts of a `select`
+  count(args: { where?: Record<string, any> }): Prisma.PrismaPromise<number>
+  findMany(args: any): Prisma.PrismaPromise<T[]>
+}
+
+export type PagedQueryOptions = QueryProjection & {
+  // Applied on top of the client's filters, e.g. to scope the list to the current user
+  where?: Record<string, any>
+  policy?: FilteringPolicyV2
+}
+
+function withBaseWhere(usedFilter: any, where?: Record<string, any>) {
+  if (!where) return usedFilter
+
+  return {
+    ...usedFilter,
+    where: {
+      AND: [where, ...usedFilter.where.AND]
+    }
+  }
+}
+
+function withProjection(options: PagedQueryOptions) {
+  return {
+    ...(options.select ? { select: options.select } : {}),
+    ...(options.include ? { include: options.include } : {})
+  }
+}
+
+/**
+ * Run a paged list query (count + page in one transaction)
+ * @param delegate - prisma model delegate, e.g. `prisma.user`
+ * @param filter   - parsed filtering query, see `checkFilteringQueryV2`
+ * @param options  - base where, include or select, and filtering policy
+ * @returns ServiceResponse with the PagedList of the current page, 400 when a cursor is sent
+ */
+export async function findManyPaged<T>(delegate: PagedQueryDelegate<T>, filter: FilteringQueryV2, options: PagedQueryOptions = {}): Promise<ServiceResponse<PagedList<T[]> | {}>> {
+    // A cursor would be ignored here, the client would get the first page again and again
+    if (filter.cursor) {
+        return BadRequestWithMessage("Invalid filtering query", "INVALID_QUERY", [generateErrorStructure("cursor", "this list is paged with page and rows, not with a cursor")])
+    }
+
+    try {
+        const usedFilter = withBaseWhere(buildFilterQueryLimitOffsetV2(filter, options.policy), options.where)
+
+        const [totalData, entries] = await prisma.$transaction([
+            delegate.count({
+                where: usedFilter.where
+            }),
+            delegate.findMany({
+                ...usedFilter,
+                ...withProjection(options)
+            })
+        ])
+
+        const page = filter.page ?? 1
+        const totalPage = Math.max(1, Math.ceil(totalData / usedFilter.take))
+
+        return {
+            status: true,
+            data: {
+                entries,
+                totalData,
+                totalPage,
+                page,
+                rows: usedFilter.take,
+                hasNext: page < totalPage
+            }
+        }
+    } catch (err) {
+        return handleServiceError("PagedQuery.findManyPaged", err)
+    }
+}
+
+/**
+ * Run a cursor paged list query, prefer this for big tables where counting and skipping get slow
+ * @param delegate - prisma model delegate, e.g. `prisma.cronRun`
+ * @param filter   - parsed filtering query, `cursor` and `cursorDirection` locate the page
+ * @param options  - base where, include or select, and filtering policy (its `nullable` columns can't be sort keys)
+ * @returns ServiceResponse with the CursorPagedList of the current page, 400 when the sort can't be paged with a cursor
+ */
+export async function findManyCursorPaged<T extends Record<string, any>>(delegate: PagedQueryDelegate<T>, filter: FilteringQueryV2, options: PagedQueryOptions = {}): Promise<ServiceResponse<CursorPagedList<T[]> | {}>> {
+    // Checked on the first page too, which has no cursor for checkFilteringPolicyV2 to look at
+    const errors = getCursorSortErrors(filter, options.policy)
+    if (errors.length !== 0) return BadRequestWithMessage("Invalid filtering query", "INVALID_QUERY", errors)
+
+    try {
+        const usedFilter = withBaseWhere(buildFilterQueryCursorV2(filter, options.policy), options.where)
+
+        const rows = await delegate.findMany({
+            ...usedFilter,
+            ...withProjection(options)
+        })
+
+        return {
+            status: true,
+            data: buildCursorPagedList(rows, filter, options.policy)
+        }
+    } catch (err) {
+        return handleServiceError("PagedQuery.findManyCursorPaged", err)
+    }
+}
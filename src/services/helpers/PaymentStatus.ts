@@ -0,0 +1,60 @@
+import { PaymentStatus } from "@prisma/client";
+import { MidtransFraudStatus, MidtransTransactionStatus } from "$pkg/midtrans/interfaces";
+
+/*
+  Allowed moves of a payment, FAILED, EXPIRED, CANCELLED, REFUNDED and CHARGED_BACK are final.
+  A paid payment can be charged back (disputed by the card holder) as well as refunded.
+  Midtrans can send notifications out of order, e.g. `pending` after `settlement`,
+  a move missing here is ignored instead of sending the payment back.
+*/
+export const PAYMENT_STATUS_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+    PENDING: ["AUTHORIZED", "PAID", "FAILED", "EXPIRED", "CANCELLED"],
+    AUTHORIZED: ["PAID", "FAILED", "EXPIRED", "CANCELLED"],
+    PAID: ["PARTIALLY_REFUNDED", "REFUNDED", "PARTIALLY_CHARGED_BACK", "CHARGED_BACK"],
+    PARTIALLY_REFUNDED: ["PARTIALLY_REFUNDED", "REFUNDED", "PARTIALLY_CHARGED_BACK", "CHARGED_BACK"],
+    PARTIALLY_CHARGED_BACK: ["CHARGED_BACK"],
+    FAILED: [],
+    EXPIRED: [],
+    CANCELLED: [],
+    REFUNDED: [],
+    CHARGED_BACK: []
+}
+
+// PARTIALLY_REFUNDED can follow itself, each partial refund raises the refunded amount
+export function canTransitionPayment(from: PaymentStatus, to: PaymentStatus): boolean {
+    return PAYMENT_STATUS_TRANSITIONS[from].includes(to)
+}
+
+/**
+ * Status of a payment for a Midtrans transaction status
+ * @param transactionStatus - transaction_status of Midtrans
+ * @param fraudStatus       - fraud_status of Midtrans, a card `capture` challenged by the fraud detection
+ *                            stays PENDING until it is accepted (settlement) or denied in the Midtrans dashboard
+ */
+export function getPaymentStatus(transactionStatus: MidtransTransactionStatus, fraudStatus?: MidtransFraudStatus): PaymentStatus {
+    switch (transactionStatus) {
+        case "capture":
+            return fraudStatus === "challenge" ? "PENDING" : fraudStatus === "deny" ? "FAILED" : "PAID"
+        case "settlement":
+            return "PAID"
+        case "authorize":
+            return "AUTHORIZED"
+        case "pending":
+            return "PENDING"
+        case "deny":
+        case "failure":
+            return "FAILED"
+        case "cancel":
+            return "CANCELLED"
+        case "expire":
+            return "EXPIRED"
+        case "partial_refund":
+            return "PARTIALLY_REFUNDED"
+        case "refund":
+            return "REFUNDED"
+        case "partial_chargeback":
+            return "PARTIALLY_CHARGED_BACK"
+        case "chargeback":
+            return "CHARGED_BACK"
+    }
+}
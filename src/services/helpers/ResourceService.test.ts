@@ -0,0 +1,116 @@
+import { BadRequestWithMessage } from "$entities/Service";
+import { prisma } from "$utils/prisma.utils";
+import { Prisma } from "@prisma/client";
+import { createResourceService } from "./ResourceService";
+
+jest.mock("$utils/prisma.utils", () => ({
+    prisma: {
+        $transaction: (queries: Promise<any>[]) => Promise.all(queries),
+        payment: {
+            count: jest.fn(),
+            findMany: jest.fn(),
+            findFirst: jest.fn(),
+            create: jest.fn(),
+            update: jest.fn(),
+            delete: jest.fn()
+        }
+    }
+}))
+
+interface Item {
+    id: string
+    name: string
+    ownerId: string
+}
+
+describe('test createResourceService', ()=>{
+    const delegate = (prisma as any).payment
+    const context = { user: { id: 'user-1', fullName: 'User', email: 'user@mail.com', role: 'USER' } }
+    const item: Item = { id: 'item-1', name: 'Item', ownerId: 'user-1' }
+
+    const service = createResourceService<Item, Partial<Item>, Partial<Item>>({
+        model: 'Payment',
+        policy: { filterable: ['name'] },
+        hooks: {
+            scope: (ctx) => ({ ownerId: ctx.user?.id }),
+            beforeCreate: (data, ctx) => {
+                if (data.name === 'forbidden') return BadRequestWithMessage('Name is not allowed')
+                return { status: true, data: { ...data, ownerId: ctx.user?.id } }
+            }
+        }
+    })
+
+    beforeEach(()=>{
+        jest.clearAllMocks()
+    })
+
+    test('should scope the list to the hook where', async ()=>{
+        delegate.count.mockResolvedValue(1)
+        delegate.findMany.mockResolvedValue([item])
+
+        const result = await service.getAll({ filters: { name: 'Item' } }, context)
+
+        expect(delegate.count).toHaveBeenCalledWith({ where: { AND: [{ ownerId: 'user-1' }, { name: 'Item' }] } })
+        expect(result.data).toMatchObject({ entries: [item], totalData: 1 })
+    })
+
+    test('should return not found outside of the scope', async ()=>{
+        delegate.findFirst.mockResolvedValue(null)
+
+        const result = await service.update('item-2', { name: 'Renamed' }, context)
+
+        expect(delegate.findFirst).toHaveBeenCalledWith({ where: { AND: [{ ownerId: 'user-1' }, { id: 'item-2' }] } })
+        expect(delegate.update).not.toHaveBeenCalled()
+        expect(result.err?.code).toBe(404)
+    })
+
+    test('should create with the payload returned by beforeCreate', async ()=>{
+        delegate.create.mockResolvedValue(item)
+
+        const result = await service.create({ name: 'Item' }, context)
+
+        expect(delegate.create).toHaveBeenCalledWith({ data: { name: 'Item', ownerId: 'user-1' } })
+        expect(result).toEqual({ status: true, data: item })
+    })
+
+    test('should abort when beforeCreate fails', async ()=>{
+        const result = await service.create({ name: 'forbidden' }, context)
+
+        expect(delegate.create).not.toHaveBeenCalled()
+        expect(result.err).toEqual({ message: 'Name is not allowed', code: 400, errorCode: 'BAD_REQUEST' })
+    })
+
+    test('should delete a record inside the scope', async ()=>{
+        delegate.findFirst.mockResolvedValue(item)
+        delegate.delete.mockResolvedValue(item)
+
+        const result = await service.delete('item-1', context)
+
+        expect(delegate.delete).toHaveBeenCalledWith({ where: { id: 'item-1' } })
+        expect(result).toEqual({ status: true, data: {} })
+    })
+
+    test('should convert the id to the type of its column', async ()=>{
+        const models = Prisma.dmmf.datamodel.models
+        const replaced = jest.replaceProperty(Prisma.dmmf.datamodel, 'models', models.map((model) => model.name !== 'Payment' ? model : {
+            ...model,
+            fields: model.fields.map((field) => field.name === 'id' ? { ...field, type: 'Int' } : field)
+        }))
+        const intService = createResourceService<Item, Partial<Item>, Partial<Item>>({ model: 'Payment' })
+        delegate.findFirst.mockResolvedValue(item)
+
+        await intService.getById('42', context)
+        expect(delegate.findFirst).toHaveBeenCalledWith({ where: { id: 42 } })
+
+        const result = await intService.delete('item-1', context)
+        expect(result.err?.code).toBe(404)
+        expect(delegate.findFirst).toHaveBeenCalledTimes(1)
+
+        replaced.restore()
+    })
+
+    test('should resolve the delegate of the model and fail fast without one', ()=>{
+        expect(() => createResourceService<Item, Partial<Item>, Partial<Item>>({ model: 'CronRun' }))
+            .toThrow('ResourceService : prisma has no delegate for the model CronRun')
+    })
+});
@@ -0,0 +1,204 @@
+import { FilteringQueryV2, PagedList, QueryProjection } from "$entities/Query";
+import { ResourceConfig, ResourceContext } from "$entities/Resource";
+import { INVALID_ID_SERVICE_RESPONSE, ServiceResponse } from "$entities/Service";
+import { prisma } from "$utils/prisma.utils";
+import { handleServiceError } from "$utils/prisma_error.utils";
+import { Prisma } from "@prisma/client";
+import { PagedQueryDelegate, findManyPaged } from "./PagedQuery";
+
+interface ResourceDelegate<T> extends PagedQueryDelegate<T> {
+  findFirst(args: any): Promise<T | null>
+  create(args: any): Promise<T>
+  update(args: any): Promise<T>
+  delete(args: any): Promise<T>
+}
+
+export interface ResourceService<T, C, U> {
+  getAll(filters: FilteringQueryV2, context: ResourceContext): Promise<ServiceResponse<PagedList<T[]> | {}>>
+  getById(id: string, context: ResourceContext): Promise<ServiceResponse<T | {}>>
+  create(data: C, context: ResourceContext): Promise<ServiceResponse<T | {}>>
+  update(id: string, data: U, context: ResourceContext): Promise<ServiceResponse<T | {}>>
+  delete(id: string, context: ResourceContext): Promise<ServiceResponse<{}>>
+}
+
+function isResourceDelegate(value: unknown): value is ResourceDelegate<unknown> {
+  return typeof value === "object" && value !== null &&
+    ["count", "findMany", "findFirst", "create", "update", "delete"].every((method) => typeof (value as Record<string, unknown>)[method] === "function")
+}
+
+// `prisma.<model>` with the first letter lowered, e.g. "CronRun" -> prisma.cronRun, any model of schema.prisma works without listing it
+function getDelegate<T>(model: Prisma.ModelName): ResourceDelegate<T> {
+  const delegate: unknown = (prisma as unknown as Record<string, unknown>)[model.charAt(0).toLowerCase() + model.slice(1)]
+  if (!isResourceDelegate(delegate)) throw new Error(`ResourceService : prisma has no delegate for the model ${model}`)
+
+  return delegate as ResourceDelegate<T>
+}
+
+type ResourceId = string | number | bigint
+
+/*
+  Route params are strings, the id is converted to the type of its column in schema.prisma,
+  e.g. "42" -> 42 for an `Int @id @default(autoincrement())`. Returns undefined when it can't be.
+*/
+function getIdParser(model: Prisma.ModelName, idField: string): (id: string) => ResourceId | undefined {
+  const field = Prisma.dmmf.datamodel.models.find((item) => item.name === model)?.fields.find((item) => item.name === idField)
+
+  switch (field?.type) {
+    case "Int":
+      return (id) => (/^-?\d+$/.test(id) && Number.isSafeInteger(Number(id)) ? Number(id) : undefined)
+    case "BigInt":
+      return (id) => (/^-?\d+$/.test(id) ? BigInt(id) : undefined)
+    default:
+      return (id) => id
+  }
+}
+
+/**
+ * Build the list / get / create / update / delete service of a prisma model
+ * @param config - resource configuration, see `ResourceConfig`
+ * @returns service functions returning ServiceResponse, like hand-written services
+ */
+export function createResourceService<T, C, U>(config: ResourceConfig<T, C, U>): ResourceService<T, C, U> {
+  const delegate = getDelegate<T>(config.model)
+  const idField = config.idField ?? "id"
+  const parseId = getIdParser(config.model, idField)
+  const hooks = config.hooks ?? {}
+  const projection: QueryProjection = config.select ? { select: config.select } : { include: config.include }
+
+  function scopedWhere(id: ResourceId, context: ResourceContext) {
+    const scope = hooks.scope?.(context)
+    return scope ? { AND: [scope, { [idField]: id }] } : { [idField]: id }
+  }
+
+  async function getAll(filters: FilteringQueryV2, context: ResourceContext) {
+    return findManyPaged<T>(delegate, filters, {
+      ...projection,
+      where: hooks.scope?.(context),
+      policy: config.policy
+    })
+  }
+
+  async function getById(id: string, context: ResourceContext): Promise<ServiceResponse<T | {}>> {
+    try {
+      const parsedId = parseId(id)
+      if (parsedId === undefined) return INVALID_ID_SERVICE_RESPONSE
+
+      const record = await delegate.findFirst({
+        where: scopedWhere(parsedId, context),
+        ...projection
+      })
+
+      if (!record) return INVALID_ID_SERVICE_RESPONSE
+
+      return {
+        status: true,
+        data: record
+      }
+    } catch (err) {
+      return handleServiceError(`ResourceService(${config.model}).getById`, err)
+    }
+  }
+
+  async function create(data: C, context: ResourceContext): Promise<ServiceResponse<T | {}>> {
+    try {
+      let payload: any = data
+      if (hooks.beforeCreate) {
+        const hookResponse = await hooks.beforeCreate(data, context)
+        if (!hookResponse.status) return hookResponse
+        payload = hookResponse.data
+      }
+
+      const record = await delegate.create({
+        data: payload,
+        ...projection
+      })
+
+      await hooks.afterCreate?.(record, context)
+
+      return {
+        status: true,
+        data: record
+      }
+    } catch (err) {
+      return handleServiceError(`ResourceService(${config.model}).create`, err)
+    }
+  }
+
+  async function update(id: string, data: U, context: ResourceContext): Promise<ServiceResponse<T | {}>> {
+    try {
+      const parsedId = parseId(id)
+      if (parsedId === undefined) return INVALID_ID_SERVICE_RESPONSE
+
+      const existing = await delegate.findFirst({
+        where: scopedWhere(parsedId, context)
+      })
+
+      if (!existing) return INVALID_ID_SERVICE_RESPONSE
+
+      let payload: any = data
+      if (hooks.beforeUpdate) {
+        const hookResponse = await hooks.beforeUpdate(id, data, context)
+        if (!hookResponse.status) return hookResponse
+        payload = hookResponse.data
+      }
+
+      const record = await delegate.update({
+        where: {
+          [idField]: parsedId
+        },
+        data: payload,
+        ...projection
+      })
+
+      await hooks.afterUpdate?.(record, context)
+
+      return {
+        status: true,
+        data: record
+      }
+    } catch (err) {
+      return handleServiceError(`ResourceService(${config.model}).update`, err)
+    }
+  }
+
+  async function deleteById(id: string, context: ResourceContext): Promise<ServiceResponse<{}>> {
+    try {
+      const parsedId = parseId(id)
+      if (parsedId === undefined) return INVALID_ID_SERVICE_RESPONSE
+
+      const existing = await delegate.findFirst({
+        where: scopedWhere(parsedId, context)
+      })
+
+      if (!existing) return INVALID_ID_SERVICE_RESPONSE
+
+      if (hooks.beforeDelete) {
+        const hookResponse = await hooks.beforeDelete(id, context)
+        if (!hookResponse.status) return hookResponse
+      }
+
+      const record = await delegate.delete({
+        where: {
+          [idField]: parsedId
+        }
+      })
+
+      await hooks.afterDelete?.(record, context)
+
+      return {
+        status: true,
+        data: {}
+      }
+    } catch (err) {
+      return handleServiceError(`ResourceService(${config.model}).delete`, err)
+    }
+  }
+
+  return {
+    getAll,
+    getById,
+    create,
+    update,
+    delete: deleteById
+  }
+}
@@ -0,0 +1,14 @@
+// `node index.js --service=rest --name=Product --prisma` -> { service: "rest", name: "Product", prisma: "" }
+export function parseArguments(args: string[]): Record<string, string> {
+  const parsedArgs: Record<string, string> = {};
+
+  for (let i = 2; i < args.length; i++) {
+    const argClean = args[i].replace(/^--/, ''); // Remove leading --
+    const separatorIndex = argClean.indexOf("=");
+    const argName = separatorIndex === -1 ? argClean : argClean.substring(0, separatorIndex);
+    const argValue = separatorIndex === -1 ? '' : argClean.substring(separatorIndex + 1);
+    parsedArgs[argName] = argValue;
+  }
+
+  return parsedArgs;
+}
@@ -0,0 +1,88 @@
+import express, { Router } from "express";
+import { AddressInfo } from "net";
+import errorMiddleware from "$middlewares/errorMiddleware";
+import { checkFilteringQueryV2 } from "$controllers/helpers/CheckFilteringQuery";
+import { wrapAsyncHandlers } from "./express.utils";
+
+const mockConfig = { isDev: false }
+jest.mock("$config/index", () => ({
+    getConfig: () => mockConfig
+}))
+
+describe('test wrapAsyncHandlers with errorMiddleware', ()=>{
+    const NestedRoutes = Router({mergeParams:true})
+    NestedRoutes.get("/async", async () => {
+        throw new Error("async failure")
+    })
+    NestedRoutes.get("/sync", () => {
+        throw new Error("sync failure")
+    })
+
+    const router = Router()
+    router.use(express.json())
+    router.use("/nested", NestedRoutes)
+    router.post("/echo", (req, res) => res.json(req.body))
+    router.get("/list", (req, res) => res.json(checkFilteringQueryV2(req)))
+
+    const app = express()
+    app.use(router)
+    app.use(errorMiddleware)
+    wrapAsyncHandlers(router)
+
+    const server = app.listen(0)
+    const baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`
+
+    afterAll(()=>{
+        server.close()
+    })
+
+    test('should answer errors of nested async handlers with the 500 envelope', async ()=>{
+        mockConfig.isDev = false
+
+        for (const path of ["/nested/async", "/nested/sync"]) {
+            const response = await fetch(`${baseUrl}${path}`)
+
+            expect(response.status).toBe(500)
+            expect(await response.json()).toEqual({
+                content: null,
+                message: "Internal Server Error",
+                errors: [],
+                errorCode: "INTERNAL_SERVER_ERROR"
+            })
+        }
+    })
+
+    test('should only send the stack trace in dev', async ()=>{
+        mockConfig.isDev = true
+
+        const body = await (await fetch(`${baseUrl}/nested/async`)).json()
+
+        expect(body.errors[0]).toBe("Error: async failure")
+    })
+
+    test('should answer invalid JSON bodies with 400', async ()=>{
+        const response = await fetch(`${baseUrl}/echo`, {
+            method: "POST",
+            headers: { "content-type": "application/json" },
+            body: '{"name":'
+        })
+
+        expect(response.status).toBe(400)
+        expect(await response.json()).toEqual({
+            content: null,
+            message: "Invalid JSON body",
+            errors: [],
+            errorCode: "INVALID_JSON"
+        })
+    })
+
+    test('should answer an invalid filtering query with 400 and every invalid param', async ()=>{
+        const response = await fetch(`${baseUrl}/list?rows=500`)
+
+        expect(response.status).toBe(400)
+        expect(await response.json()).toMatchObject({
+            message: "Invalid filtering query",
+            errors: [{ field: "rows", message: "rows must be less than or equal to 100" }]
+        })
+    })
+});
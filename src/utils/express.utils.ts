@@ -0,0 +1,49 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+
+const ORIGINAL_HANDLER = Symbol("originalHandler");
+
+// Forward both sync throws and rejected promises of a handler to `next(err)`
+export function asyncHandler(handler: RequestHandler): RequestHandler {
+  const wrapped = (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result: unknown = handler(req, res, next);
+      if (result instanceof Promise) result.catch(next);
+    } catch (err) {
+      next(err);
+    }
+  };
+
+  (wrapped as any)[ORIGINAL_HANDLER] = handler;
+  return wrapped;
+}
+
+// The handler before `asyncHandler`, e.g. to read metadata attached to a middleware
+export function unwrapHandler(handler: any): any {
+  return handler?.[ORIGINAL_HANDLER] ?? handler;
+}
+
+/**
+ * Wrap every handler of a router with `asyncHandler`, including the handlers of its routes and of nested routers,
+ * so async controllers and middlewares that throw reach the error middleware instead of hanging the request.
+ * Call it once the routes are registered, error handlers (4 arguments) are left untouched
+ * @param router - express router or app, e.g. the router of routes/index.ts
+ */
+export function wrapAsyncHandlers(router: any): void {
+  const stack: any[] = router?.stack ?? [];
+
+  for (const layer of stack) {
+    if (layer.route) {
+      layer.route.stack.forEach((routeLayer: any) => wrapLayer(routeLayer));
+    } else if (Array.isArray(layer.handle?.stack)) {
+      // Nested router, e.g. router.use("/users", UserRoutes)
+      wrapAsyncHandlers(layer.handle);
+    } else {
+      wrapLayer(layer);
+    }
+  }
+}
+
+function wrapLayer(layer: any) {
+  if (typeof layer.handle !== "function" || layer.handle.length === 4 || layer.handle[ORIGINAL_HANDLER]) return;
+  layer.handle = asyncHandler(layer.handle);
+}
@@ -0,0 +1,28 @@
+import Logger from "$pkg/logger";
+import { getReadiness, registerHealthCheck } from "./health.utils";
+
+describe('test getReadiness', ()=>{
+    test('should be ready when every check is up', async ()=>{
+        registerHealthCheck("database", async () => {})
+
+        const readiness = await getReadiness(1000)
+
+        expect(readiness.ready).toBe(true)
+        expect(readiness.checks.database).toEqual({ status: "up", durationMs: expect.any(Number) })
+    })
+
+    test('should report failing and hanging checks as down', async ()=>{
+        registerHealthCheck("database", () => { throw new Error("Can't reach database server") })
+        registerHealthCheck("payment gateway", () => new Promise(() => {}))
+        const errorSpy = jest.spyOn(Logger, 'error').mockImplementation(() => Logger)
+
+        const readiness = await getReadiness(50)
+
+        expect(readiness.ready).toBe(false)
+        expect(readiness.checks.database).toEqual({ status: "down", durationMs: expect.any(Number) })
+        expect(readiness.checks["payment gateway"]).toEqual({ status: "down", durationMs: expect.any(Number) })
+        expect(errorSpy).toHaveBeenCalledWith("health : database is down : Can't reach database server")
+        expect(errorSpy).toHaveBeenCalledWith("health : payment gateway is down : Timed out after 50 ms")
+        errorSpy.mockRestore()
+    })
+});
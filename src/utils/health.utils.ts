@@ -0,0 +1,68 @@
+import { isShuttingDown } from "$utils/shutdown.utils";
+import { getConfig } from "$config/index";
+import Logger from "$pkg/logger";
+
+// Resolves when the dependency is usable, throws (or rejects) otherwise
+type HealthCheck = () => Promise<unknown> | unknown;
+
+export interface HealthCheckResult {
+  status: "up" | "down"
+  durationMs: number
+}
+
+export interface ReadinessReport {
+  ready: boolean
+  shuttingDown: boolean
+  checks: Record<string, HealthCheckResult>
+}
+
+const checks = new Map<string, HealthCheck>();
+
+/**
+ * Add a dependency to the readiness check (`GET /health/ready`), e.g. a cache or a 3rd party API
+ *   registerHealthCheck("redis", () => redis.ping())
+ * @param name  - key of the check in the report, registering the same name again replaces it
+ * @param check - resolves when the dependency is usable, throws otherwise
+ */
+export function registerHealthCheck(name: string, check: HealthCheck): void {
+  checks.set(name, check);
+}
+
+// The error is only logged, the report is public and messages of drivers can tell hosts, ports or users
+async function runHealthCheck(name: string, check: HealthCheck, timeoutMs: number): Promise<HealthCheckResult> {
+  const startedAt = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+
+  try {
+    await Promise.race([
+      Promise.resolve().then(check),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs} ms`)), timeoutMs);
+      }),
+    ]);
+    return { status: "up", durationMs: Date.now() - startedAt };
+  } catch (err) {
+    Logger.error(`health : ${name} is down : ${err instanceof Error ? err.message : String(err)}`);
+    return { status: "down", durationMs: Date.now() - startedAt };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Run every registered check in parallel.
+ * Not ready when a check is down or when the process is shutting down, so load balancers stop sending traffic
+ * @param timeoutMs - time given to each check, HEALTH_CHECK_TIMEOUT_MS (3s by default)
+ */
+export async function getReadiness(timeoutMs = getConfig().healthCheckTimeoutMs): Promise<ReadinessReport> {
+  const results = await Promise.all(
+    Array.from(checks, async ([name, check]) => [name, await runHealthCheck(name, check, timeoutMs)] as const)
+  );
+  const shuttingDown = isShuttingDown();
+
+  return {
+    ready: !shuttingDown && results.every(([, result]) => result.status === "up"),
+    shuttingDown,
+    checks: Object.fromEntries(results),
+  };
+}
@@ -0,0 +1,25 @@
+import jwt from "jsonwebtoken";
+import { hashRefreshToken, signUserToken, verifyUserToken } from "./jwt.utils";
+
+jest.mock("$config/index", () => ({
+    getConfig: () => ({ jwt: { secret: "testsecret-testsecret", accessTokenExpiresIn: "15m", refreshTokenExpiresInDays: 30 } })
+}))
+
+describe('test user tokens', ()=>{
+    const user = { id: 'user-1', email: 'tom@mail.com', fullName: 'Tom', role: 'USER', sessionId: 'session-1' }
+
+    test('should verify a signed token and only keep the user fields', ()=>{
+        expect(verifyUserToken(signUserToken(user))).toEqual(user)
+    })
+
+    test('should reject a token signed with another secret, or expired', ()=>{
+        expect(() => verifyUserToken(jwt.sign(user, 'another-secret'))).toThrow('invalid signature')
+        expect(() => verifyUserToken(jwt.sign({ ...user, exp: Math.floor(Date.now() / 1000) - 10 }, 'testsecret-testsecret'))).toThrow('jwt expired')
+    })
+
+    test('should hash refresh tokens deterministically', ()=>{
+        expect(hashRefreshToken('token')).toBe(hashRefreshToken('token'))
+        expect(hashRefreshToken('token')).not.toBe(hashRefreshToken('other'))
+        expect(hashRefreshToken('token')).toMatch(/^[0-9a-f]{64}$/)
+    })
+});
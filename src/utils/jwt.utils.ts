@@ -0,0 +1,37 @@
+import { UserJWTDAO } from "$entities/User";
+import jwt from "jsonwebtoken";
+import { createHash, randomBytes } from "crypto";
+import { getConfig } from "$config/index";
+
+// Access tokens are short lived, sessions are kept alive through refresh tokens
+export function signUserToken(payload: UserJWTDAO): string {
+    return jwt.sign(payload, getConfig().jwt.secret, {
+        expiresIn: getConfig().jwt.accessTokenExpiresIn
+    })
+}
+
+export function verifyUserToken(token: string): UserJWTDAO {
+    const decoded = jwt.verify(token, getConfig().jwt.secret) as jwt.JwtPayload & UserJWTDAO
+
+    return {
+        id: decoded.id,
+        email: decoded.email,
+        fullName: decoded.fullName,
+        role: decoded.role,
+        sessionId: decoded.sessionId
+    }
+}
+
+export function generateRefreshToken(): string {
+    return randomBytes(48).toString("base64url")
+}
+
+// Only the hash is persisted, so a leaked database can't be used to refresh sessions
+export function hashRefreshToken(token: string): string {
+    return createHash("sha256").update(token).digest("hex")
+}
+
+export function getRefreshTokenExpiryDate(): Date {
+    const days = getConfig().jwt.refreshTokenExpiresInDays
+    return new Date(Date.now() + days * 24 * 60 * 60 * 1000)
+}
@@ -0,0 +1,32 @@
+import { UserJWTDAO } from "$entities/User";
+import { hasPermission, hasRole, isOwnerOrHasPermission } from "./permission.utils";
+import { transformRoleToEnumRole } from "./user.utils";
+
+describe('test permissions', ()=>{
+    const user = (role: string): UserJWTDAO => ({ id: 'user-1', email: 'tom@mail.com', fullName: 'Tom', role })
+
+    test('should map known roles case-insensitively, and unknown roles to undefined', ()=>{
+        expect(transformRoleToEnumRole('admin')).toBe('ADMIN')
+        expect(transformRoleToEnumRole('USER')).toBe('USER')
+        expect(transformRoleToEnumRole('SUPERADMIN')).toBeUndefined()
+    })
+
+    test('should check roles and permissions of the role', ()=>{
+        expect(hasRole(user('ADMIN'), 'ADMIN')).toBe(true)
+        expect(hasRole(user('USER'), 'ADMIN')).toBe(false)
+        expect(hasPermission(user('ADMIN'), 'user:read', 'user:delete')).toBe(true)
+        expect(hasPermission(user('USER'), 'user:read')).toBe(false)
+    })
+
+    test('should deny everything to an unknown role', ()=>{
+        expect(hasRole(user('SUPERADMIN'), 'ADMIN', 'USER')).toBe(false)
+        expect(hasPermission(user('SUPERADMIN'), 'user:read')).toBe(false)
+        expect(isOwnerOrHasPermission(user('SUPERADMIN'), 'user-2', 'user:update')).toBe(false)
+    })
+
+    test('should let owners act on their own records', ()=>{
+        expect(isOwnerOrHasPermission(user('USER'), 'user-1', 'user:update')).toBe(true)
+        expect(isOwnerOrHasPermission(user('USER'), 'user-2', 'user:update')).toBe(false)
+        expect(isOwnerOrHasPermission(user('ADMIN'), 'user-2', 'user:update')).toBe(true)
+    })
+});
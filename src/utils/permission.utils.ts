@@ -0,0 +1,45 @@
+import { UserJWTDAO } from '$entities/User';
+import { Roles } from '@prisma/client';
+import { transformRoleToEnumRole } from './user.utils';
+
+export type Permission =
+    | "user:read"
+    | "user:update"
+    | "user:delete"
+    | "cron:read"
+    | "cron:run"
+
+/*
+  Permission map per role, a permission here means the role is allowed to do
+  the action on ANY record. Actions on the user's own records are checked
+  through `isOwnerOrHasPermission` inside the service layer.
+*/
+export const ROLE_PERMISSIONS: Record<Roles, Permission[]> = {
+    ADMIN: [
+        "user:read",
+        "user:update",
+        "user:delete",
+        "cron:read",
+        "cron:run"
+    ],
+    USER: []
+}
+
+export function hasRole(user:UserJWTDAO, ...roles:Roles[]):boolean{
+    const role = transformRoleToEnumRole(user.role)
+    if(!role) return false
+
+    return roles.includes(role)
+}
+
+export function hasPermission(user:UserJWTDAO, ...permissions:Permission[]):boolean{
+    const role = transformRoleToEnumRole(user.role)
+    if(!role) return false
+
+    return permissions.every((permission) => ROLE_PERMISSIONS[role].includes(permission))
+}
+
+// Row ownership check, e.g. "users may only edit their own records unless they have user:update"
+export function isOwnerOrHasPermission(user:UserJWTDAO, ownerId:string, permission:Permission):boolean{
+    return user.id === ownerId || hasPermission(user, permission)
+}
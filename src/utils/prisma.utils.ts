@@ -1,45 +1,86 @@
-import { PrismaClient } from "@prisma/client";
+import { Prisma, PrismaClient } from "@prisma/client";
+import { runWithoutRequestContext } from "$utils/request_context.utils";
+import { registerHealthCheck } from "$utils/health.utils";
+import { onShutdown } from "$utils/shutdown.utils";
+import Logger from "$pkg/logger";
+import { getConfig } from "$config/index";
 
-const prismaLogOptsNonProd:any = [
-  {
-    emit: "stdout",
-    level: "query",
-  },
+const isProduction = getConfig().isProduction
+
+// Engine logs go through Logger instead of stdout, so they land in the log files too
+const prismaLogOptsNonProd: Prisma.LogDefinition[] = [
   {
-    emit: "stdout",
+    emit: "event",
     level: "error",
   },
   {
-    emit: "stdout",
+    emit: "event",
     level: "info",
   },
   {
-    emit: "stdout",
+    emit: "event",
     level: "warn",
-        },
+  },
 ]
 
-const prismaLogOptsProd:any = [
+const prismaLogOptsProd: Prisma.LogDefinition[] = [
   {
-    emit: "stdout",
+    emit: "event",
     level: "error",
   },
   {    
-    emit: "stdout",
+    emit: "event",
     level: "warn",
   },
 ]
 
-const prismaLogOpts = process.env.ENVIRONMENT === "production" ? prismaLogOptsProd : prismaLogOptsNonProd
+const prismaLogOpts = isProduction ? prismaLogOptsProd : prismaLogOptsNonProd
+
+// Engine events are fired from native code, which could inherit the context of an unrelated request
+function logEngineEvents(client: PrismaClient<Prisma.PrismaClientOptions, Prisma.LogLevel>): void {
+  client.$on("error", (e) => runWithoutRequestContext(() => Logger.error(`prisma : ${e.message}`)))
+  client.$on("warn", (e) => runWithoutRequestContext(() => Logger.warn(`prisma : ${e.message}`)))
+  client.$on("info", (e) => runWithoutRequestContext(() => Logger.info(`prisma : ${e.message}`)))
+}
+
+/*
+  Queries are logged from a query extension instead of the `query` engine event : it runs in the caller's context,
+  so the lines carry the request id. The SQL text only exists in the engine event, the line has the model, operation and arguments
+*/
+function withQueryLogs(client: PrismaClient) {
+  return client.$extends({
+    query: {
+      async $allOperations({ model, operation, args, query }) {
+        if (isProduction) return query(args)
+
+        const startedAt = Date.now()
+        try {
+          return await query(args)
+        } finally {
+          Logger.debug(`prisma:query ${model ? `${model}.` : ""}${operation} ${JSON.stringify(args)} ${Date.now() - startedAt} ms`)
+        }
+      }
+    }
+  })
+}
+
+// The extended client has no $on / $use, they are only used on the base client
+export type ExtendedPrismaClient = ReturnType<typeof withQueryLogs>
+
+// Client given to interactive transactions, e.g. `prisma.$transaction(async (tx) => ...)`, accepted by helpers that also work without one
+export type TransactionClient = Omit<ExtendedPrismaClient, "$connect" | "$disconnect" | "$on" | "$transaction" | "$use" | "$extends">
 
 export class PrismaInstance {
   private static instance: PrismaInstance;
-  private prisma: PrismaClient;
+  private prisma: ExtendedPrismaClient;
 
   private constructor() {
-    this.prisma =  new PrismaClient({
+    const client = new PrismaClient({
       log: prismaLogOpts
     });
+    logEngineEvents(client);
+
+    this.prisma = withQueryLogs(client);
   }
 
   public static getInstance(): PrismaInstance {
@@ -49,12 +90,21 @@ export class PrismaInstance {
     return PrismaInstance.instance;
   }
 
-  public getPrismaClient(): PrismaClient {
+  public getPrismaClient(): ExtendedPrismaClient {
     return this.prisma;
   }
 
+  // Throws when the database can't be reached, used by the readiness check
+  public async ping(): Promise<void> {
+    await this.prisma.$queryRaw`SELECT 1`;
+  }
+
 }
 
 
-export const prisma:PrismaClient = PrismaInstance.getInstance().getPrismaClient();
+export const prisma: ExtendedPrismaClient = PrismaInstance.getInstance().getPrismaClient();
+
+registerHealthCheck("database", () => PrismaInstance.getInstance().ping());
+// Registered before any app server, so it runs once the servers are drained
+onShutdown("prisma", () => prisma.$disconnect());
 
@@ -0,0 +1,68 @@
+import { INTERNAL_SERVER_ERROR_SERVICE_RESPONSE } from "$entities/Service";
+import Logger from "$pkg/logger";
+import { Prisma } from "@prisma/client";
+import { handleServiceError, translatePrismaError } from "./prisma_error.utils";
+
+describe('test translatePrismaError', ()=>{
+    const knownError = (code: string, meta: Record<string, unknown>, message = 'Invalid `prisma.user.create()` invocation') => (
+        new Prisma.PrismaClientKnownRequestError(message, { code, clientVersion: '5.1.1', meta })
+    )
+
+    test('should translate unique constraint errors to 409 with the conflicting fields', ()=>{
+        expect(translatePrismaError(knownError('P2002', { modelName: 'User', target: 'User_email_key' }))?.err).toEqual({
+            message: 'email already exists',
+            code: 409,
+            errorCode: 'ALREADY_EXISTS',
+            errors: [{ field: 'email', message: 'email is already used' }]
+        })
+        expect(translatePrismaError(knownError('P2002', { target: ['userId', 'code'] }))?.err?.message).toBe('userId, code already exists')
+    })
+
+    test('should translate missing records to 404', ()=>{
+        const result = translatePrismaError(knownError('P2025', { cause: 'Record to update not found.' }))
+
+        expect(result?.err).toEqual({ message: 'Record to update not found.', code: 404, errorCode: 'NOT_FOUND' })
+    })
+
+    test('should translate foreign key errors depending on the operation', ()=>{
+        const meta = { modelName: 'Order', field_name: 'Order_userId_fkey (index)' }
+
+        expect(translatePrismaError(knownError('P2003', meta, 'Invalid `prisma.order.create()` invocation'))?.err).toEqual({
+            message: 'Related data does not exist',
+            code: 400,
+            errorCode: 'RELATED_DATA_NOT_FOUND',
+            errors: [{ field: 'userId', message: 'userId is still referenced or does not exist' }]
+        })
+        expect(translatePrismaError(knownError('P2003', meta, 'Invalid `prisma.user.delete()` invocation'))?.err).toMatchObject({
+            code: 409,
+            errorCode: 'STILL_REFERENCED'
+        })
+    })
+
+    test('should translate unknown fields to 400', ()=>{
+        const error = new Prisma.PrismaClientValidationError('Unknown argument `passwrd`. Did you mean `password`?', { clientVersion: '5.1.1' })
+
+        expect(translatePrismaError(error)?.err).toEqual({
+            message: 'Invalid query',
+            code: 400,
+            errorCode: 'INVALID_QUERY',
+            errors: [{ field: 'passwrd', message: 'passwrd is not a known field' }]
+        })
+    })
+
+    test('should leave other validation errors to the internal server error', ()=>{
+        const error = new Prisma.PrismaClientValidationError('Argument `email` is missing.', { clientVersion: '5.1.1' })
+        const errorSpy = jest.spyOn(Logger, 'error').mockImplementation(() => Logger)
+
+        expect(translatePrismaError(error)).toBeUndefined()
+        expect(handleServiceError('Test.create', error)).toBe(INTERNAL_SERVER_ERROR_SERVICE_RESPONSE)
+        expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('Argument `email` is missing.'))
+        errorSpy.mockRestore()
+    })
+
+    test('should fall back to an internal server error', ()=>{
+        expect(translatePrismaError(knownError('P1001', {}))).toBeUndefined()
+        expect(translatePrismaError(new Error('db down'))).toBeUndefined()
+        expect(handleServiceError('Test.fallback', new Error('db down')).err?.code).toBe(500)
+    })
+});
@@ -0,0 +1,106 @@
+import { BadRequestWithMessage, ConflictWithMessage, INTERNAL_SERVER_ERROR_SERVICE_RESPONSE, NotFoundWithMessage, ServiceResponse } from "$entities/Service";
+import Logger from "$pkg/logger";
+import { generateErrorStructure } from "$validations/helper";
+import { Prisma } from "@prisma/client";
+
+/*
+  P2002 target is a list of fields, except on MySQL where it's the index name :
+    ["email"] -> ["email"]
+    "User_email_key" -> ["email"]
+*/
+function getUniqueFields(error: Prisma.PrismaClientKnownRequestError): string[] {
+  const target = error.meta?.target;
+  if (Array.isArray(target)) return target.map(String);
+  if (typeof target !== "string") return [];
+
+  const modelName = typeof error.meta?.modelName === "string" ? error.meta.modelName : "";
+  return [target.replace(new RegExp(`^${modelName}_`), "").replace(/_key$/, "")];
+}
+
+// "Order_userId_fkey (index)" -> "userId"
+function getForeignKeyField(error: Prisma.PrismaClientKnownRequestError): string | undefined {
+  const fieldName = error.meta?.field_name;
+  if (typeof fieldName !== "string") return undefined;
+
+  const modelName = typeof error.meta?.modelName === "string" ? error.meta.modelName : "";
+  return fieldName.replace(/\s*\(index\)$/, "").replace(new RegExp(`^${modelName}_`), "").replace(/_fkey$/, "");
+}
+
+function translateKnownRequestError(error: Prisma.PrismaClientKnownRequestError): ServiceResponse<{}> | undefined {
+  switch (error.code) {
+    case "P2002": {
+      const fields = getUniqueFields(error);
+      return ConflictWithMessage(
+        fields.length > 0 ? `${fields.join(", ")} already exists` : "Data already exists",
+        "ALREADY_EXISTS",
+        fields.map((field) => generateErrorStructure(field, `${field} is already used`))
+      );
+    }
+    case "P2025":
+      return NotFoundWithMessage(typeof error.meta?.cause === "string" ? error.meta.cause : "Data not Found");
+    case "P2003": {
+      const field = getForeignKeyField(error);
+      const errors = field ? [generateErrorStructure(field, `${field} is still referenced or does not exist`)] : [];
+
+      // The invocation is part of the message, e.g. "Invalid `prisma.user.delete()` invocation"
+      if (/\.delete(Many)?\(\)` invocation/.test(error.message)) {
+        return ConflictWithMessage("Data is still used by other records", "STILL_REFERENCED", errors);
+      }
+      return BadRequestWithMessage("Related data does not exist", "RELATED_DATA_NOT_FOUND", errors);
+    }
+    default:
+      return undefined;
+  }
+}
+
+/*
+  Unknown fields come from filters / sorts the code (or a too permissive filtering policy) passed to prisma,
+  any other validation error (missing argument, wrong type...) is a bug and stays a 500
+*/
+function translateValidationError(error: Prisma.PrismaClientValidationError): ServiceResponse<{}> | undefined {
+  const unknownFields = Array.from(error.message.matchAll(/Unknown (?:argument|field) `([^`]+)`/g), (match) => match[1]);
+  if (unknownFields.length === 0) return undefined;
+
+  return BadRequestWithMessage(
+    "Invalid query",
+    "INVALID_QUERY",
+    unknownFields.map((field) => generateErrorStructure(field, `${field} is not a known field`))
+  );
+}
+
+/**
+ * Translate a prisma error into a failed ServiceResponse :
+ *   P2002 (unique constraint) -> 409 naming the conflicting fields
+ *   P2025 (record not found) -> 404
+ *   P2003 (foreign key) -> 409 when deleting a referenced record, 400 when the related record doesn't exist
+ *   validation error naming unknown fields -> 400
+ * @param err - anything caught from a prisma call
+ * @returns the ServiceResponse, or undefined when the error is not one of the above
+ */
+export function translatePrismaError(err: unknown): ServiceResponse<{}> | undefined {
+  if (err instanceof Prisma.PrismaClientKnownRequestError) return translateKnownRequestError(err);
+  if (err instanceof Prisma.PrismaClientValidationError) return translateValidationError(err);
+  return undefined;
+}
+
+/**
+ * Turn an error caught in a service into a ServiceResponse, to be used in the service's catch block :
+ *
+ *   }catch(err){
+ *       return handleServiceError("ProductService.create", err)
+ *   }
+ *
+ * @param scope - `<Service>.<function>`, used in the log
+ * @param err   - the caught error
+ * @returns the translated prisma error, or INTERNAL_SERVER_ERROR_SERVICE_RESPONSE (logged as an error)
+ */
+export function handleServiceError(scope: string, err: unknown): ServiceResponse<{}> {
+  const translated = translatePrismaError(err);
+  if (translated) {
+    Logger.warn(`${scope} : ${translated.err?.errorCode} ${translated.err?.message}`);
+    return translated;
+  }
+
+  Logger.error(`${scope} : ${err}`);
+  return INTERNAL_SERVER_ERROR_SERVICE_RESPONSE;
+}
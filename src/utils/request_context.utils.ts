@@ -0,0 +1,29 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+export interface RequestContext {
+  requestId: string
+  // Set by authMiddleware once the token is verified
+  userId?: string
+}
+
+const requestContextStorage = new AsyncLocalStorage<RequestContext>();
+
+// Run `callback` and everything it awaits with the given context, see `requestIdMiddleware`
+export function runWithRequestContext<T>(context: RequestContext, callback: () => T): T {
+  return requestContextStorage.run(context, callback);
+}
+
+// Run `callback` without any context, e.g. in callbacks fired by native code that would inherit an unrelated request
+export function runWithoutRequestContext<T>(callback: () => T): T {
+  return requestContextStorage.exit(callback);
+}
+
+// Context of the current request, undefined outside of a request (startup, cron jobs, ...)
+export function getRequestContext(): RequestContext | undefined {
+  return requestContextStorage.getStore();
+}
+
+export function setRequestContextUser(userId: string): void {
+  const context = requestContextStorage.getStore();
+  if (context) context.userId = userId;
+}
@@ -0,0 +1,48 @@
+import { ConflictWithMessage, INTERNAL_SERVER_ERROR_SERVICE_RESPONSE, RateLimitedWithMessage, ServiceResponse, ValidationErrorWithMessage } from "$entities/Service";
+import { Response } from "express";
+import { handleServiceErrorWithResponse } from "./response.utils";
+
+describe('test handleServiceErrorWithResponse', ()=>{
+    const mockResponse = () => {
+        const res: any = {}
+        res.status = jest.fn().mockReturnValue(res)
+        res.json = jest.fn().mockReturnValue(res)
+        return res as Response & { status: jest.Mock, json: jest.Mock }
+    }
+
+    test('should map every service error to its status and error code', ()=>{
+        const cases: [ServiceResponse<{}>, number, string][] = [
+            [ConflictWithMessage('Email is already registered', 'EMAIL_ALREADY_REGISTERED'), 409, 'EMAIL_ALREADY_REGISTERED'],
+            [RateLimitedWithMessage('Too many attempts'), 429, 'RATE_LIMITED'],
+            [INTERNAL_SERVER_ERROR_SERVICE_RESPONSE, 500, 'INTERNAL_SERVER_ERROR'],
+        ]
+
+        cases.forEach(([serviceResponse, status, errorCode]) => {
+            const res = mockResponse()
+            handleServiceErrorWithResponse(res, serviceResponse)
+
+            expect(res.status).toHaveBeenCalledWith(status)
+            expect(res.json).toHaveBeenCalledWith({
+                content: null,
+                message: serviceResponse.err?.message,
+                errors: [],
+                errorCode
+            })
+        })
+    })
+
+    test('should keep the field errors of validation errors', ()=>{
+        const res = mockResponse()
+        const errors = [{ field: 'quantity', message: 'Only 2 items left in stock' }]
+
+        handleServiceErrorWithResponse(res, ValidationErrorWithMessage('Validation Error', errors, 'OUT_OF_STOCK'))
+
+        expect(res.status).toHaveBeenCalledWith(422)
+        expect(res.json).toHaveBeenCalledWith({
+            content: null,
+            message: 'Validation Error',
+            errors,
+            errorCode: 'OUT_OF_STOCK'
+        })
+    })
+});
@@ -1,4 +1,5 @@
 import { ServiceResponse } from "$entities/Service";
+import { ErrorStructure } from "$validations/helper";
 import type { Response } from "express";
 
 /**
@@ -9,6 +10,7 @@ import type { Response } from "express";
  * @param content - the response data
  * @param message - description of a response
  * @param errors  - list of errors if any
+ * @param errorCode - stable machine-readable code of an error response, see `ServiceError`
  * @returns response
  */
 export const response_handler = (
@@ -16,9 +18,10 @@ export const response_handler = (
   status: number,
   content: unknown = null,
   message = "",
-  errors: Array<string> = []
+  errors: Array<ErrorStructure | string> = [],
+  errorCode?: string
 ): Response => {
-  return res.status(status).json({ content, message, errors });
+  return res.status(status).json({ content, message, errors, ...(errorCode ? { errorCode } : {}) });
 };
 
 /**
@@ -27,13 +30,15 @@ export const response_handler = (
  * @param res response object
  * @param message description
  * @param errors list of errors
+ * @param errorCode machine-readable code
  */
 export const response_bad_request = (
   res: Response,
   message = "Bad Request",
-  errors: Array<any> = []
+  errors: Array<ErrorStructure | string> = [],
+  errorCode = "BAD_REQUEST"
 ): Response => {
-  return response_handler(res, 400, undefined, message, errors);
+  return response_handler(res, 400, undefined, message, errors, errorCode);
 };
 
 /**
@@ -42,13 +47,15 @@ export const response_bad_request = (
  * @param res response object
  * @param message description
  * @param errors list of errors
+ * @param errorCode machine-readable code
  */
 export const response_unauthorized = (
   res: Response,
   message = "Unauthorized",
-  errors: Array<string> = []
+  errors: Array<ErrorStructure | string> = [],
+  errorCode = "UNAUTHORIZED"
 ): Response => {
-  return response_handler(res, 401, undefined, message, errors);
+  return response_handler(res, 401, undefined, message, errors, errorCode);
 };
 
 /**
@@ -57,13 +64,15 @@ export const response_unauthorized = (
  * @param res response object
  * @param message description
  * @param errors list of errors
+ * @param errorCode machine-readable code
  */
 export const response_forbidden = (
   res: Response,
   message = "Forbidden",
-  errors: Array<string> = []
+  errors: Array<ErrorStructure | string> = [],
+  errorCode = "FORBIDDEN"
 ): Response => {
-  return response_handler(res, 403, undefined, message, errors);
+  return response_handler(res, 403, undefined, message, errors, errorCode);
 };
 
 /**
@@ -72,13 +81,15 @@ export const response_forbidden = (
  * @param res response object
  * @param message description
  * @param errors list of errors
+ * @param errorCode machine-readable code
  */
 export const response_not_found = (
   res: Response,
   message = "Not Found",
-  errors: Array<string> = []
+  errors: Array<ErrorStructure | string> = [],
+  errorCode = "NOT_FOUND"
 ): Response => {
-  return response_handler(res, 404, undefined, message, errors);
+  return response_handler(res, 404, undefined, message, errors, errorCode);
 };
 
 /**
@@ -87,13 +98,15 @@ export const response_not_found = (
  * @param res response object
  * @param message description
  * @param errors list of errors
+ * @param errorCode machine-readable code
  */
 export const response_conflict = (
   res: Response,
   message = "Conflict",
-  errors: Array<string> = []
+  errors: Array<ErrorStructure | string> = [],
+  errorCode = "CONFLICT"
 ): Response => {
-  return response_handler(res, 409, undefined, message, errors);
+  return response_handler(res, 409, undefined, message, errors, errorCode);
 };
 
 /**
@@ -102,13 +115,32 @@ export const response_conflict = (
  * @param res response object
  * @param message description
  * @param errors list of errors
+ * @param errorCode machine-readable code
  */
 export const response_unprocessable_entity = (
   res: Response,
   message = "Unprocessable Entity",
-  errors: Array<string> = []
+  errors: Array<ErrorStructure | string> = [],
+  errorCode = "VALIDATION_ERROR"
 ): Response => {
-  return response_handler(res, 422, undefined, message, errors);
+  return response_handler(res, 422, undefined, message, errors, errorCode);
+};
+
+/**
+ * Too Many Requests
+ * The user has sent too many requests in a given amount of time
+ * @param res response object
+ * @param message description
+ * @param errors list of errors
+ * @param errorCode machine-readable code
+ */
+export const response_too_many_requests = (
+  res: Response,
+  message = "Too Many Requests",
+  errors: Array<ErrorStructure | string> = [],
+  errorCode = "RATE_LIMITED"
+): Response => {
+  return response_handler(res, 429, undefined, message, errors, errorCode);
 };
 
 /**
@@ -117,13 +149,32 @@ export const response_unprocessable_entity = (
  * @param res response object
  * @param message description
  * @param errors list of errors
+ * @param errorCode machine-readable code
  */
 export const response_internal_server_error = (
   res: Response,
   message = "Internal Server Error",
-  errors: Array<string> = []
+  errors: Array<ErrorStructure | string> = [],
+  errorCode = "INTERNAL_SERVER_ERROR"
+): Response => {
+  return response_handler(res, 500, undefined, message, errors, errorCode);
+};
+
+/**
+ * Service Unavailable
+ * The server is not ready to handle the request, e.g. a dependency is down or it is shutting down
+ * @param res response object
+ * @param message description
+ * @param errors list of errors
+ * @param errorCode machine-readable code
+ */
+export const response_service_unavailable = (
+  res: Response,
+  message = "Service Unavailable",
+  errors: Array<ErrorStructure | string> = [],
+  errorCode = "SERVICE_UNAVAILABLE"
 ): Response => {
-  return response_handler(res, 500, undefined, message, errors);
+  return response_handler(res, 503, undefined, message, errors, errorCode);
 };
 
 /**
@@ -156,18 +207,50 @@ export const response_created = (
   return response_handler(res, 201, content, message, undefined);
 };
 
+/**
+ * Accepted
+ * The request has been accepted and is processed in the background
+ * @param res response object
+ * @param content response data
+ * @param message description
+ */
+export const response_accepted = (
+  res: Response,
+  content: unknown = null,
+  message = "Accepted"
+): Response => {
+  return response_handler(res, 202, content, message, undefined);
+};
+
+/**
+ * Map a failed service response to its `response_*` helper, with its message, field errors and error code
+ * @param res             - response object passed by express
+ * @param serviceResponse - failed service response
+ * @returns response
+ */
 export const handleServiceErrorWithResponse = (
   res: Response,
   serviceResponse: ServiceResponse<any>
 ): Response => {
-  switch (serviceResponse.err?.code) {
+  const err = serviceResponse.err;
+  const errors = err?.errors ?? [];
+
+  switch (err?.code) {
     case 400:
-      return response_bad_request(res, serviceResponse.err?.message);
-    case 404:
-      return response_not_found(res, serviceResponse.err?.message);
+      return response_bad_request(res, err.message, errors, err.errorCode);
     case 401:
-      return response_unauthorized(res, serviceResponse.err?.message);
+      return response_unauthorized(res, err.message, errors, err.errorCode);
+    case 403:
+      return response_forbidden(res, err.message, errors, err.errorCode);
+    case 404:
+      return response_not_found(res, err.message, errors, err.errorCode);
+    case 409:
+      return response_conflict(res, err.message, errors, err.errorCode);
+    case 422:
+      return response_unprocessable_entity(res, err.message, errors, err.errorCode);
+    case 429:
+      return response_too_many_requests(res, err.message, errors, err.errorCode);
     default:
-      return response_internal_server_error(res, serviceResponse.err?.message);
+      return response_internal_server_error(res, err?.message, errors, err?.errorCode);
   }
 };
@@ -0,0 +1,72 @@
+import { buildDomainFiles, getDomainNames, registerRoutesInIndex, registerRoutesInRegistry } from "./scaffold.utils";
+
+describe('test scaffold utils', ()=>{
+    const names = getDomainNames('order-item')
+
+    test('should derive the domain names', ()=>{
+        expect(names).toEqual({ pascal: 'OrderItem', camel: 'orderItem', path: 'order-items' })
+        expect(getDomainNames('Category').path).toBe('categories')
+        expect(getDomainNames('address', 'addresses-v2').path).toBe('addresses-v2')
+        expect(() => getDomainNames('--')).toThrow()
+    })
+
+    test('should build every file of the domain', ()=>{
+        const files = buildDomainFiles(names)
+
+        expect(Object.keys(files)).toEqual([
+            'entities/OrderItem.ts',
+            'validations/OrderItemValidations.ts',
+            'services/OrderItemService.ts',
+            'controllers/rest/OrderItemController.ts',
+            'routes/OrderItem.ts',
+        ])
+        expect(files['services/OrderItemService.ts']).toContain('return handleServiceError("OrderItemService.getById", err)')
+        expect(files['routes/OrderItem.ts']).toContain('OrderItemController.deleteOrderItem')
+    })
+
+    test('should register the routes in the registry', ()=>{
+        const registry = [
+            'import ExampleRoutes from "./Example";',
+            'import UserRoutes from "./User";',
+            '',
+            'const RoutesRegistry = {',
+            '    ExampleRoutes,',
+            '    UserRoutes',
+            '};',
+            '',
+            'export default RoutesRegistry;',
+        ].join('\n')
+
+        expect(registerRoutesInRegistry(registry, names)).toBe([
+            'import ExampleRoutes from "./Example";',
+            'import UserRoutes from "./User";',
+            'import OrderItemRoutes from "./OrderItem";',
+            '',
+            'const RoutesRegistry = {',
+            '    ExampleRoutes,',
+            '    UserRoutes,',
+            '    OrderItemRoutes',
+            '};',
+            '',
+            'export default RoutesRegistry;',
+        ].join('\n'))
+        expect(() => registerRoutesInRegistry(registerRoutesInRegistry(registry, names), names)).toThrow()
+    })
+
+    test('should mount the routes after the last registered routes', ()=>{
+        const index = [
+            'router.use("/example", RoutesRegistry.ExampleRoutes)',
+            'router.use("/users", RoutesRegistry.UserRoutes)',
+            '',
+            'router.all("*", (req: Request, res: Response) => {',
+        ].join('\n')
+
+        expect(registerRoutesInIndex(index, names)).toBe([
+            'router.use("/example", RoutesRegistry.ExampleRoutes)',
+            'router.use("/users", RoutesRegistry.UserRoutes)',
+            'router.use("/order-items", RoutesRegistry.OrderItemRoutes)',
+            '',
+            'router.all("*", (req: Request, res: Response) => {',
+        ].join('\n'))
+    })
+});
@@ -0,0 +1,342 @@
+/*
+  Templates and source patching used by the domain generator (`npm run generate`, see app/generate.ts),
+  the generated files follow the conventions described in the README, like the User domain does.
+*/
+
+export interface DomainNames {
+    // Product
+    pascal: string
+    // product
+    camel: string
+    // products, used as the route path
+    path: string
+}
+
+export function toPascalCase(value: string): string {
+    return value
+        .split(/[^a-zA-Z0-9]+/)
+        .filter(Boolean)
+        .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+        .join("")
+}
+
+export function toKebabCase(value: string): string {
+    return value
+        .replace(/([a-z0-9])([A-Z])/g, "$1-$2")
+        .toLowerCase()
+}
+
+export function pluralize(value: string): string {
+    if (/[^aeiou]y$/.test(value)) return `${value.slice(0, -1)}ies`
+    if (/(s|x|z|ch|sh)$/.test(value)) return `${value}es`
+    return `${value}s`
+}
+
+// "order-item" -> { pascal : "OrderItem", camel : "orderItem", path : "order-items" }
+export function getDomainNames(name: string, path?: string): DomainNames {
+    const pascal = toPascalCase(name)
+    if (!pascal) throw new Error(`"${name}" is not a valid domain name`)
+
+    return {
+        pascal,
+        camel: pascal.charAt(0).toLowerCase() + pascal.slice(1),
+        path: path ?? pluralize(toKebabCase(pascal))
+    }
+}
+
+function entityTemplate({ pascal }: DomainNames): string {
+    return `export interface ${pascal}CreateDTO {
+    name:string
+}
+
+export interface ${pascal}UpdateDTO {
+    name?:string
+}
+`
+}
+
+function validationsTemplate({ pascal }: DomainNames): string {
+    return `import { FilteringPolicyV2 } from "$entities/Query";
+import { ${pascal}CreateDTO, ${pascal}UpdateDTO } from "$entities/${pascal}";
+import { validateFilteringQueryV2 } from "./FilteringQueryValidations";
+import { Schema, v, validate } from "./schema";
+
+export const ${pascal}FilteringPolicy: FilteringPolicyV2 = {
+    filterable: [],
+    searchable: ["name"],
+    rangeable: ["createdAt"],
+    sortable: ["name", "createdAt"],
+    relations: []
+}
+
+export const ${pascal}CreateSchema: Schema<${pascal}CreateDTO> = {
+    name: v.string().trim().min(1)
+}
+
+export const ${pascal}UpdateSchema: Schema<${pascal}UpdateDTO> = {
+    name: v.string().trim().min(1).optional()
+}
+
+export const validateCreateDTO = validate({ body: ${pascal}CreateSchema })
+
+export const validateUpdateDTO = validate({ body: ${pascal}UpdateSchema })
+
+export const validateFilteringQuery = validateFilteringQueryV2(${pascal}FilteringPolicy)
+`
+}
+
+function serviceTemplate({ pascal, camel }: DomainNames): string {
+    return `import { FilteringQueryV2, PagedList } from "$entities/Query";
+import { INVALID_ID_SERVICE_RESPONSE, ServiceResponse } from "$entities/Service";
+import { ${pascal}CreateDTO, ${pascal}UpdateDTO } from "$entities/${pascal}";
+import { prisma } from "$utils/prisma.utils";
+import { handleServiceError } from "$utils/prisma_error.utils";
+import { ${pascal} } from "@prisma/client";
+import { findManyPaged } from "./helpers/PagedQuery";
+
+export async function getAll(filters:FilteringQueryV2):Promise<ServiceResponse<PagedList<${pascal}[]> | {}>>{
+    return findManyPaged<${pascal}>(prisma.${camel}, filters)
+}
+
+export async function getById(id:string):Promise<ServiceResponse<${pascal} | {}>>{
+    try{
+        const ${camel} = await prisma.${camel}.findUnique({
+            where:{
+                id
+            }
+        })
+
+        if (!${camel}) return INVALID_ID_SERVICE_RESPONSE
+
+        return {
+            status:true,
+            data:${camel}
+        }
+    }catch(err){
+        return handleServiceError("${pascal}Service.getById", err)
+    }
+}
+
+export async function create(data:${pascal}CreateDTO):Promise<ServiceResponse<${pascal} | {}>>{
+    try{
+        const ${camel} = await prisma.${camel}.create({
+            data
+        })
+
+        return {
+            status:true,
+            data:${camel}
+        }
+    }catch(err){
+        return handleServiceError("${pascal}Service.create", err)
+    }
+}
+
+export async function update(id:string, data:${pascal}UpdateDTO):Promise<ServiceResponse<${pascal} | {}>>{
+    try{
+        const ${camel} = await prisma.${camel}.findUnique({
+            where:{
+                id
+            }
+        })
+
+        if (!${camel}) return INVALID_ID_SERVICE_RESPONSE
+
+        const updated${pascal} = await prisma.${camel}.update({
+            where:{
+                id
+            },
+            data
+        })
+
+        return {
+            status:true,
+            data:updated${pascal}
+        }
+    }catch(err){
+        return handleServiceError("${pascal}Service.update", err)
+    }
+}
+
+export async function delete${pascal}(id:string):Promise<ServiceResponse<{}>>{
+    try{
+        const ${camel} = await prisma.${camel}.findUnique({
+            where:{
+                id
+            }
+        })
+
+        if (!${camel}) return INVALID_ID_SERVICE_RESPONSE
+
+        await prisma.${camel}.delete({
+            where:{
+                id
+            }
+        })
+
+        return {
+            status:true,
+            data:{}
+        }
+    }catch(err){
+        return handleServiceError("${pascal}Service.delete${pascal}", err)
+    }
+}
+`
+}
+
+function controllerTemplate({ pascal }: DomainNames): string {
+    return `import { Request, Response } from 'express';
+import * as ${pascal}Service from "$services/${pascal}Service"
+import { ${pascal}CreateDTO, ${pascal}UpdateDTO } from '$entities/${pascal}';
+import { handlePagedListResponse } from '$controllers/helpers/PagedListResponse';
+import { handleServiceErrorWithResponse, response_created, response_success } from '$utils/response.utils';
+
+export async function getAll(req:Request, res:Response):Promise<Response>{
+    return handlePagedListResponse(req, res, ${pascal}Service.getAll)
+}
+
+export async function getById(req:Request, res:Response):Promise<Response>{
+    const serviceResponse = await ${pascal}Service.getById(req.params.id)
+
+    if(!serviceResponse.status) return handleServiceErrorWithResponse(res, serviceResponse)
+
+    return response_success(res, serviceResponse.data, "Success!")
+}
+
+export async function create(req:Request, res:Response):Promise<Response>{
+    const data:${pascal}CreateDTO = req.body
+    const serviceResponse = await ${pascal}Service.create(data)
+
+    if(!serviceResponse.status) return handleServiceErrorWithResponse(res, serviceResponse)
+
+    return response_created(res, serviceResponse.data, "Successfully created!")
+}
+
+export async function update(req:Request, res:Response):Promise<Response>{
+    const data:${pascal}UpdateDTO = req.body
+    const serviceResponse = await ${pascal}Service.update(req.params.id, data)
+
+    if(!serviceResponse.status) return handleServiceErrorWithResponse(res, serviceResponse)
+
+    return response_success(res, serviceResponse.data, "Successfully updated!")
+}
+
+export async function delete${pascal}(req:Request, res:Response):Promise<Response>{
+    const serviceResponse = await ${pascal}Service.delete${pascal}(req.params.id)
+
+    if(!serviceResponse.status) return handleServiceErrorWithResponse(res, serviceResponse)
+
+    return response_success(res, serviceResponse.data, "Successfully deleted!")
+}
+`
+}
+
+function routesTemplate({ pascal }: DomainNames): string {
+    return `import { Router } from "express";
+import * as ${pascal}Controller from "$controllers/rest/${pascal}Controller"
+import * as ${pascal}Validations from "$validations/${pascal}Validations"
+import authMiddleware from "$middlewares/authMiddleware";
+import { routeDoc } from "./helpers/OpenApi";
+
+const ${pascal}Routes = Router({mergeParams:true})
+
+${pascal}Routes.get("/",
+    routeDoc({ summary: "List ${pascal}" }),
+    authMiddleware,
+    ${pascal}Validations.validateFilteringQuery,
+    ${pascal}Controller.getAll
+)
+
+${pascal}Routes.get("/:id",
+    routeDoc({ summary: "Get a ${pascal}" }),
+    authMiddleware,
+    ${pascal}Controller.getById
+)
+
+${pascal}Routes.post("/",
+    routeDoc({ summary: "Create a ${pascal}" }),
+    authMiddleware,
+    ${pascal}Validations.validateCreateDTO,
+    ${pascal}Controller.create
+)
+
+${pascal}Routes.put("/:id",
+    routeDoc({ summary: "Update a ${pascal}" }),
+    authMiddleware,
+    ${pascal}Validations.validateUpdateDTO,
+    ${pascal}Controller.update
+)
+
+${pascal}Routes.delete("/:id",
+    routeDoc({ summary: "Delete a ${pascal}" }),
+    authMiddleware,
+    ${pascal}Controller.delete${pascal}
+)
+
+export default ${pascal}Routes
+`
+}
+
+// Files of a new domain, keyed by their path relative to `src`
+export function buildDomainFiles(names: DomainNames): Record<string, string> {
+    return {
+        [`entities/${names.pascal}.ts`]: entityTemplate(names),
+        [`validations/${names.pascal}Validations.ts`]: validationsTemplate(names),
+        [`services/${names.pascal}Service.ts`]: serviceTemplate(names),
+        [`controllers/rest/${names.pascal}Controller.ts`]: controllerTemplate(names),
+        [`routes/${names.pascal}.ts`]: routesTemplate(names),
+    }
+}
+
+export function buildPrismaModelStub({ pascal }: DomainNames): string {
+    return `
+model ${pascal} {
+  id        String   @id @default(uuid())
+  name      String
+  createdAt DateTime @default(now())
+  updatedAt DateTime @updatedAt
+}
+`
+}
+
+// Add the import and the entry of `<Name>Routes` to the source of routes/registry.ts
+export function registerRoutesInRegistry(source: string, { pascal }: DomainNames): string {
+    const routesName = `${pascal}Routes`
+    const registry = /(const RoutesRegistry = \{)([\s\S]*?)(\s*\};)/
+
+    if (!registry.test(source)) throw new Error("RoutesRegistry object not found in routes/registry.ts")
+    if (new RegExp(`\\b${routesName}\\b`).test(source)) throw new Error(`${routesName} is already registered in routes/registry.ts`)
+
+    const importLine = `import ${routesName} from "./${pascal}";`
+    const lines = source.split("\n")
+    const lastImportIndex = lines.map((line) => line.startsWith("import ")).lastIndexOf(true)
+    lines.splice(lastImportIndex + 1, 0, importLine)
+
+    return lines.join("\n").replace(registry, (_, start: string, entries: string, end: string) => {
+        const trimmedEntries = entries.trimEnd()
+        const separator = trimmedEntries.trim() === "" || trimmedEntries.endsWith(",") ? "" : ","
+        return `${start}${trimmedEntries}${separator}\n    ${routesName}${end}`
+    })
+}
+
+// Mount `<Name>Routes` after the last registered routes in the source of routes/index.ts
+export function registerRoutesInIndex(source: string, { pascal, path }: DomainNames): string {
+    const useLine = `router.use("/${path}", RoutesRegistry.${pascal}Routes)`
+
+    if (source.includes(`RoutesRegistry.${pascal}Routes`)) throw new Error(`${pascal}Routes is already used in routes/index.ts`)
+
+    const lines = source.split("\n")
+    const lastUseIndex = lines.map((line) => line.includes("RoutesRegistry.")).lastIndexOf(true)
+    if (lastUseIndex !== -1) {
+        lines.splice(lastUseIndex + 1, 0, useLine)
+        return lines.join("\n")
+    }
+
+    // No routes yet, mount it before the not found handler
+    const notFoundIndex = lines.findIndex((line) => line.startsWith('router.all("*"'))
+    if (notFoundIndex === -1) throw new Error("Not found handler not found in routes/index.ts")
+
+    lines.splice(notFoundIndex, 0, useLine, "")
+    return lines.join("\n")
+}
@@ -0,0 +1,49 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { closeServer, isShuttingDown, onShutdown, shutdown } from "./shutdown.utils";
+
+describe('test closeServer', ()=>{
+    test('should let in-flight requests finish before closing', async ()=>{
+        const server = http.createServer((req, res) => {
+            setTimeout(() => res.end("done"), 100)
+        }).listen(0)
+        const url = `http://localhost:${(server.address() as AddressInfo).port}`
+
+        const inFlight = fetch(url).then((response) => response.text())
+        await new Promise((resolve) => setTimeout(resolve, 20))
+
+        const closed = closeServer(server, 1000)
+
+        expect(await inFlight).toBe("done")
+        await closed
+        await expect(fetch(url)).rejects.toThrow()
+    })
+
+    test('should cut requests still running after the timeout', async ()=>{
+        const server = http.createServer(() => {}).listen(0)
+        const url = `http://localhost:${(server.address() as AddressInfo).port}`
+
+        const hanging = fetch(url).catch(() => "cut")
+        await new Promise((resolve) => setTimeout(resolve, 20))
+
+        await closeServer(server, 50)
+
+        expect(await hanging).toBe("cut")
+    })
+});
+
+describe('test shutdown', ()=>{
+    test('should run the handlers last registered first, once, and report failures', async ()=>{
+        const calls: string[] = []
+        onShutdown("prisma", () => { calls.push("prisma") })
+        onShutdown("failing", () => { throw new Error("boom") })
+        onShutdown("rest server", async () => { calls.push("rest server") })
+
+        expect(await shutdown("test", 1000)).toBe(false)
+        expect(calls).toEqual(["rest server", "prisma"])
+        expect(isShuttingDown()).toBe(true)
+
+        expect(await shutdown("again", 1000)).toBe(false)
+        expect(calls).toEqual(["rest server", "prisma"])
+    })
+});
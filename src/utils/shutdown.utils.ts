@@ -0,0 +1,96 @@
+import { Server } from "http";
+import Logger from "$pkg/logger";
+import { getConfig } from "$config/index";
+
+type ShutdownHandler = () => Promise<void> | void;
+
+const handlers: { name: string; handler: ShutdownHandler }[] = [];
+let shuttingDown = false;
+
+/**
+ * Run `handler` when the process is asked to stop, see `registerShutdownSignals`.
+ * Handlers run one after the other, last registered first, so an app registers its server
+ * after the shared clients it uses (e.g. prisma) and the server is drained before they are closed
+ * @param name    - used in the logs
+ * @param handler - closes a server, a connection, a scheduler, ...
+ */
+export function onShutdown(name: string, handler: ShutdownHandler): void {
+  handlers.push({ name, handler });
+}
+
+export function isShuttingDown(): boolean {
+  return shuttingDown;
+}
+
+/**
+ * Run every shutdown handler
+ * @param reason    - used in the logs, e.g. the signal
+ * @param timeoutMs - time given to all of them, SHUTDOWN_TIMEOUT_MS (10s by default)
+ * @returns whether every handler finished in time without throwing
+ */
+export async function shutdown(reason: string, timeoutMs = getConfig().shutdownTimeoutMs): Promise<boolean> {
+  if (shuttingDown) return false;
+  shuttingDown = true;
+
+  Logger.info(`Shutdown : ${reason}, closing ${handlers.map(({ name }) => name).join(", ") || "nothing"}`);
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<boolean>((resolve) => {
+    timer = setTimeout(() => {
+      Logger.error(`Shutdown : still running after ${timeoutMs} ms, giving up`);
+      resolve(false);
+    }, timeoutMs);
+  });
+
+  const runHandlers = async () => {
+    let succeeded = true;
+    for (const { name, handler } of [...handlers].reverse()) {
+      try {
+        await handler();
+        Logger.info(`Shutdown : closed ${name}`);
+      } catch (err) {
+        succeeded = false;
+        Logger.error(`Shutdown : failed to close ${name} : ${err}`);
+      }
+    }
+    return succeeded;
+  };
+
+  const succeeded = await Promise.race([runHandlers(), timeout]);
+  clearTimeout(timer);
+  return succeeded;
+}
+
+// Exit cleanly on SIGTERM (deployments, docker stop) and SIGINT (ctrl+c), a second signal exits right away
+export function registerShutdownSignals(): void {
+  for (const signal of ["SIGTERM", "SIGINT"] as const) {
+    process.once(signal, async () => {
+      process.once(signal, () => process.exit(1));
+
+      const succeeded = await shutdown(signal);
+      process.exit(succeeded ? 0 : 1);
+    });
+  }
+}
+
+/**
+ * Stop accepting connections and wait for in-flight requests, idle keep-alive connections are closed right away
+ * and the remaining ones are cut after `timeoutMs`, half of SHUTDOWN_TIMEOUT_MS by default to leave time to the other handlers
+ */
+export function closeServer(server: Server, timeoutMs = getConfig().shutdownTimeoutMs / 2): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      Logger.warn(`Shutdown : requests still running after ${timeoutMs} ms, closing their connections`);
+      server.closeAllConnections();
+    }, timeoutMs);
+    // Keep-alive connections become idle once their request is answered, close them as soon as they do
+    const idleTimer = setInterval(() => server.closeIdleConnections(), 100);
+
+    server.close((err) => {
+      clearTimeout(timer);
+      clearInterval(idleTimer);
+      return err ? reject(err) : resolve();
+    });
+    server.closeIdleConnections();
+  });
+}
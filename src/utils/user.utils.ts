@@ -1,10 +1,13 @@
 import { Roles } from '@prisma/client';
 
-export function transformRoleToEnumRole(role:string){
-    switch(role){
+// Returns undefined for unknown roles instead of silently downgrading them to USER
+export function transformRoleToEnumRole(role:string):Roles | undefined{
+    switch(role?.toUpperCase()){
         case "ADMIN":
             return Roles.ADMIN
-        default:
+        case "USER":
             return Roles.USER
+        default:
+            return undefined
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,38 @@
+import { UserAuthResponseDTO, UserJWTDAO, UserLoginDTO, UserRefreshTokenDTO, UserRegisterDTO } from "$entities/User";
+import { Schema, v, validate } from "./schema";
+
+export const UserRegisterSchema: Schema<UserRegisterDTO> = {
+    fullName: v.string().trim().min(1),
+    email: v.string().trim().email(),
+    password: v.string().min(8)
+}
+
+export const UserLoginSchema: Schema<UserLoginDTO> = {
+    email: v.string().trim(),
+    password: v.string()
+}
+
+export const UserRefreshTokenSchema: Schema<UserRefreshTokenDTO> = {
+    refreshToken: v.string()
+}
+
+// Only documents the responses, see `routeDoc`
+export const UserJWTSchema: Schema<UserJWTDAO> = {
+    id: v.string(),
+    email: v.string(),
+    fullName: v.string(),
+    role: v.string(),
+    sessionId: v.string().optional()
+}
+
+export const UserAuthResponseSchema: Schema<UserAuthResponseDTO> = {
+    token: v.string().description("Access token, send it as `Authorization: Bearer <token>`"),
+    refreshToken: v.string(),
+    user: v.object(UserJWTSchema)
+}
+
+export const validateRegisterDTO = validate({ body: UserRegisterSchema })
+
+export const validateLoginDTO = validate({ body: UserLoginSchema })
+
+export const validateRefreshTokenDTO = validate({ body: UserRefreshTokenSchema })
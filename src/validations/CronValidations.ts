@@ -0,0 +1,40 @@
+import { CronRun, CronRunStatus, CronRunTrigger } from "@prisma/client";
+import { CronJobDTO } from "$entities/Cron";
+import { FilteringPolicyV2 } from "$entities/Query";
+import { validateFilteringQueryV2 } from "./FilteringQueryValidations";
+import { Schema, v } from "./schema";
+
+export const CronRunFilteringPolicy: FilteringPolicyV2 = {
+    filterable: ["jobName", "status", "trigger", "instance"],
+    searchable: [],
+    rangeable: ["startedAt"],
+    sortable: ["startedAt", "durationMs"],
+    nullable: ["durationMs"],
+    relations: []
+}
+
+// Only documents the responses, see `routeDoc`, nullable columns are documented as optional
+export const CronRunResponseSchema: Schema<CronRun> = {
+    id: v.string(),
+    jobName: v.string(),
+    trigger: v.enum(Object.values(CronRunTrigger)),
+    status: v.enum(Object.values(CronRunStatus)),
+    instance: v.string().description("Host and pid of the process that ran it"),
+    triggeredById: v.string().optional(),
+    error: v.string().optional(),
+    startedAt: v.date(),
+    finishedAt: v.date().optional(),
+    durationMs: v.number().int().optional(),
+    createdAt: v.date()
+} as Schema<CronRun>
+
+export const CronJobResponseSchema: Schema<CronJobDTO> = {
+    name: v.string(),
+    description: v.string().optional(),
+    schedule: v.string().description("Cron expression"),
+    timezone: v.string(),
+    timeoutMs: v.number().int(),
+    lastRun: v.object(CronRunResponseSchema).optional()
+} as Schema<CronJobDTO>
+
+export const validateRunsFilteringQuery = validateFilteringQueryV2(CronRunFilteringPolicy)
@@ -0,0 +1,29 @@
+import { FilteringPolicyV2 } from "$entities/Query";
+import { ParseFilteringQueryOptions, checkFilteringPolicyV2, parseFilteringQueryV2 } from "$controllers/helpers/CheckFilteringQuery";
+import { response_bad_request } from "$utils/response.utils";
+import { NextFunction, Request, Response } from "express";
+
+// Reject malformed list queries, and when a policy is given, queries that filter, search or sort
+// on keys the resource doesn't allow, instead of letting Prisma fail on them (or leak columns like `password`)
+const FILTERING_POLICY = Symbol("filteringPolicy")
+
+export function validateFilteringQueryV2(policy?: FilteringPolicyV2, options: ParseFilteringQueryOptions = {}) {
+    const middleware = (req: Request, res: Response, next: NextFunction) => {
+        const { filter, errors } = parseFilteringQueryV2(req, options)
+
+        if (policy) errors.push(...checkFilteringPolicyV2(filter, policy))
+
+        if (errors.length !== 0) return response_bad_request(res, "Invalid filtering query", errors)
+
+        res.locals.filteringQuery = filter
+        next()
+    }
+
+    return Object.assign(middleware, { [FILTERING_POLICY]: policy ?? {} })
+}
+
+// Policy of a middleware built with `validateFilteringQueryV2`, used to document list routes
+export function getFilteringPolicy(handler: unknown): FilteringPolicyV2 | undefined {
+    if (typeof handler !== "function" || !(FILTERING_POLICY in handler)) return undefined
+    return handler[FILTERING_POLICY] as FilteringPolicyV2
+}
@@ -0,0 +1,30 @@
+import { PaymentStatus } from "@prisma/client";
+import { MidtransNotificationDTO, PaymentNotificationResultDTO } from "$entities/Payment";
+import { MIDTRANS_FRAUD_STATUSES, MIDTRANS_TRANSACTION_STATUSES } from "$pkg/midtrans/interfaces";
+import { Schema, v, validate } from "./schema";
+
+// Fields used to verify and apply the notification, the others sent by Midtrans are dropped
+export const MidtransNotificationSchema: Schema<MidtransNotificationDTO> = {
+    order_id: v.string(),
+    status_code: v.string(),
+    gross_amount: v.string().description("e.g. 10000.00"),
+    signature_key: v.string().description("SHA512 of order_id + status_code + gross_amount + server key"),
+    transaction_id: v.string(),
+    transaction_status: v.enum(MIDTRANS_TRANSACTION_STATUSES),
+    fraud_status: v.enum(MIDTRANS_FRAUD_STATUSES).optional(),
+    status_message: v.string().optional(),
+    payment_type: v.string().optional(),
+    currency: v.string().optional(),
+    transaction_time: v.string().optional(),
+    settlement_time: v.string().optional(),
+    refund_amount: v.string().optional()
+}
+
+// Only documents the responses, see `routeDoc`
+export const PaymentNotificationResultSchema: Schema<PaymentNotificationResultDTO> = {
+    orderId: v.string(),
+    status: v.enum(Object.values(PaymentStatus)),
+    outcome: v.enum(["updated", "unchanged", "ignored", "duplicate"] as const)
+}
+
+export const validateMidtransNotification = validate({ body: MidtransNotificationSchema })
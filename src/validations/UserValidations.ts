@@ -0,0 +1,33 @@
+import { FilteringPolicyV2 } from "$entities/Query";
+import { UserUpdateDTO } from "$entities/User";
+import { validateFilteringQueryV2 } from "./FilteringQueryValidations";
+import { Roles, User } from "@prisma/client";
+import { Schema, v, validate } from "./schema";
+
+export const UserFilteringPolicy: FilteringPolicyV2 = {
+    filterable: ["role"],
+    searchable: ["fullName", "email"],
+    rangeable: ["createdAt"],
+    sortable: ["fullName", "email", "createdAt"],
+    relations: []
+}
+
+export const UserUpdateSchema: Schema<UserUpdateDTO> = {
+    fullName: v.string().trim().min(1).optional(),
+    email: v.string().trim().email().optional(),
+    password: v.string().min(8).optional()
+}
+
+// Only documents the responses, see `routeDoc`
+export const UserResponseSchema: Schema<Omit<User, "password">> = {
+    id: v.string(),
+    fullName: v.string(),
+    email: v.string().email(),
+    role: v.enum(Object.values(Roles)),
+    createdAt: v.date(),
+    updatedAt: v.date()
+}
+
+export const validateUpdateDTO = validate({ body: UserUpdateSchema })
+
+export const validateFilteringQuery = validateFilteringQueryV2(UserFilteringPolicy)
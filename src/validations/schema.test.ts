@@ -0,0 +1,119 @@
+import { Request, Response } from 'express';
+import { Schema, parseSchema, v, validate } from './schema';
+
+interface ProductDTO {
+    name: string
+    price: number
+    isActive?: boolean
+    tags?: string[]
+    category: "FOOD" | "DRINK"
+}
+
+const ProductSchema: Schema<ProductDTO> = {
+    name: v.string().trim().min(3),
+    price: v.number().min(0),
+    isActive: v.boolean().optional(),
+    tags: v.array(v.string()).optional(),
+    category: v.enum(["FOOD", "DRINK"] as const)
+}
+
+describe('parseSchema', () => {
+    test('should return coerced values and strip unknown keys', () => {
+        const result = parseSchema(ProductSchema, {
+            name: '  Coffee ',
+            price: '15000',
+            isActive: 'true',
+            tags: 'hot',
+            category: 'DRINK',
+            role: 'ADMIN'
+        })
+
+        expect(result.errors).toEqual([])
+        expect(result.value).toEqual({
+            name: 'Coffee',
+            price: 15000,
+            isActive: true,
+            tags: ['hot'],
+            category: 'DRINK'
+        })
+    })
+
+    test('should return one error structure per invalid field', () => {
+        const result = parseSchema(ProductSchema, {
+            name: 'ab',
+            price: 'free',
+            category: 'SNACK'
+        })
+
+        expect(result.value).toBeUndefined()
+        expect(result.errors).toEqual([
+            { field: 'name', message: 'name must be at least 3 characters' },
+            { field: 'price', message: 'price must be a number' },
+            { field: 'category', message: 'category must be one of FOOD, DRINK' }
+        ])
+    })
+
+    test('should report missing required fields and allow missing optional fields', () => {
+        const result = parseSchema(ProductSchema, {})
+
+        expect(result.errors.map((error) => error.field)).toEqual(['name', 'price', 'category'])
+        expect(result.errors[0].message).toBe('name cannot be empty')
+    })
+
+    test('should use the default of missing or empty fields', () => {
+        const schema = { rows: v.number().int().default(10), order: v.enum(["asc", "desc"] as const).default("desc") }
+
+        expect(parseSchema(schema, { rows: '' }).value).toEqual({ rows: 10, order: 'desc' })
+        expect(parseSchema(schema, { rows: '25', order: 'asc' }).value).toEqual({ rows: 25, order: 'asc' })
+        expect(schema.rows.isRequired()).toBe(false)
+    })
+
+    test('should check an optional string given as an empty string', () => {
+        const schema = { fullName: v.string().trim().min(1).optional(), nickname: v.string().optional() }
+
+        expect(parseSchema(schema, { fullName: '' }).errors).toEqual([{ field: 'fullName', message: 'fullName must be at least 1 characters' }])
+        expect(parseSchema(schema, { fullName: '   ' }).errors).toHaveLength(1)
+        expect(parseSchema(schema, { fullName: null }).errors).toEqual([{ field: 'fullName', message: 'fullName must be a string' }])
+        expect(parseSchema(schema, { nickname: '' }).value).toEqual({ nickname: '' })
+        expect(parseSchema(schema, {}).value).toEqual({})
+    })
+
+    test('should prefix nested object fields', () => {
+        const result = parseSchema({ address: v.object({ city: v.string() }) }, { address: {} })
+
+        expect(result.errors).toEqual([{ field: 'address.city', message: 'address.city cannot be empty' }])
+    })
+})
+
+describe('validate', () => {
+    const mockResponse = () => {
+        const res = {} as Response
+        res.status = jest.fn().mockReturnValue(res)
+        res.json = jest.fn().mockReturnValue(res)
+        return res
+    }
+
+    test('should reply 422 with every invalid field', () => {
+        const req = { body: { name: 'ab' }, query: { page: 'x' }, params: {} } as unknown as Request
+        const res = mockResponse()
+        const next = jest.fn()
+
+        validate({ body: ProductSchema, query: { page: v.number().int() } })(req, res, next)
+
+        expect(next).not.toHaveBeenCalled()
+        expect(res.status).toHaveBeenCalledWith(422)
+        expect((res.json as jest.Mock).mock.calls[0][0].errors.map((error: any) => error.field)).toEqual(['name', 'price', 'category', 'page'])
+    })
+
+    test('should replace the request with coerced values on success', () => {
+        const req = { body: { name: 'Coffee', price: '100', category: 'DRINK' }, params: { id: '5' } } as unknown as Request
+        const res = mockResponse()
+        const next = jest.fn()
+
+        validate({ body: ProductSchema, params: { id: v.number().int() } })(req, res, next)
+
+        expect(next).toHaveBeenCalled()
+        expect(req.body).toEqual({ name: 'Coffee', price: 100, category: 'DRINK' })
+        expect(req.params).toEqual({ id: 5 })
+    })
+})
@@ -0,0 +1,363 @@
+import { NextFunction, Request, Response } from "express";
+import { response_unprocessable_entity } from "$utils/response.utils";
+import { ErrorStructure, generateErrorStructure } from "./helper";
+
+/*
+  Small declarative validation layer.
+
+  Declare one schema per DTO, and the compiler will make sure every key of the DTO is covered :
+
+    export const UserRegisterSchema: Schema<UserRegisterDTO> = {
+      fullName: v.string().min(1),
+      email: v.string().email(),
+      password: v.string().min(8),
+    }
+
+  then use it on routes as a middleware :
+
+    AuthRoutes.post("/register", validate({ body: UserRegisterSchema }), AuthController.register)
+
+  Values are coerced (e.g. "10" -> 10 for number fields in query and params) and unknown keys are stripped,
+  so the controller can safely read `req.body as UserRegisterDTO`.
+
+  Schemas also describe the request in the generated OpenAPI document (see routes/helpers/OpenApi.ts),
+  add `.description("...")` to a field to document it.
+*/
+
+export interface ParseResult<T> {
+  value?: T;
+  errors: ErrorStructure[];
+}
+
+type Check<T> = (value: T) => string | undefined;
+
+export abstract class Validator<T> {
+  protected isOptional = false;
+  protected defaultValue: T | undefined;
+  protected checks: Check<T>[] = [];
+  // OpenAPI keywords matching the checks, e.g. { minLength: 8 }
+  protected openApiDocs: Record<string, any> = {};
+
+  // Convert the raw input to T, returns an error message when it can't
+  protected abstract coerce(value: unknown, field: string): { value?: T; error?: string };
+
+  optional(): Validator<T | undefined> {
+    this.isOptional = true;
+    return this as Validator<T | undefined>;
+  }
+
+  // Value used when the input is missing or empty, e.g. v.number().default(10)
+  default(value: T): Validator<T> {
+    this.defaultValue = value;
+    this.isOptional = true;
+    this.openApiDocs.default = value;
+    return this;
+  }
+
+  description(text: string): this {
+    this.openApiDocs.description = text;
+    return this;
+  }
+
+  isRequired(): boolean {
+    return !this.isOptional;
+  }
+
+  // OpenAPI 3 schema of the field
+  toOpenApi(): Record<string, any> {
+    return { ...this.openApiType(), ...this.openApiDocs };
+  }
+
+  protected abstract openApiType(): Record<string, any>;
+
+  refine(check: (value: T) => boolean, message: string): this {
+    this.checks.push((value) => (check(value) ? undefined : message));
+    return this;
+  }
+
+  // Whether the input counts as not given, an empty query param ("?rows=") is not a value
+  protected isMissing(value: unknown): boolean {
+    return value === undefined || value === null || value === "";
+  }
+
+  parse(value: unknown, field: string): ParseResult<T> {
+    if (this.isMissing(value)) {
+      if (this.isOptional) return { value: this.defaultValue, errors: [] };
+      return { errors: [generateErrorStructure(field, `${field} cannot be empty`)] };
+    }
+
+    const coerced = this.coerce(value, field);
+    if (coerced.error) return { errors: [generateErrorStructure(field, coerced.error)] };
+
+    for (const check of this.checks) {
+      const message = check(coerced.value as T);
+      if (message) return { errors: [generateErrorStructure(field, message.replace("{field}", field))] };
+    }
+
+    return { value: coerced.value, errors: [] };
+  }
+}
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export class StringValidator extends Validator<string> {
+  private shouldTrim = false;
+
+  // "" is a string, an optional field given as "" is checked instead of skipped, e.g. against .min(1)
+  protected isMissing(value: unknown): boolean {
+    return this.isOptional ? value === undefined : super.isMissing(value);
+  }
+
+  protected coerce(value: unknown, field: string) {
+    if (typeof value !== "string") return { error: `${field} must be a string` };
+    return { value: this.shouldTrim ? value.trim() : value };
+  }
+
+  protected openApiType() {
+    return { type: "string" };
+  }
+
+  trim(): this {
+    this.shouldTrim = true;
+    return this;
+  }
+
+  min(length: number): this {
+    this.openApiDocs.minLength = length;
+    return this.refine((value) => value.length >= length, `{field} must be at least ${length} characters`);
+  }
+
+  max(length: number): this {
+    this.openApiDocs.maxLength = length;
+    return this.refine((value) => value.length <= length, `{field} must be at most ${length} characters`);
+  }
+
+  email(): this {
+    this.openApiDocs.format = "email";
+    return this.refine((value) => EMAIL_REGEX.test(value), "{field} is not valid");
+  }
+
+  pattern(regex: RegExp, message = "{field} is not valid"): this {
+    this.openApiDocs.pattern = regex.source;
+    return this.refine((value) => regex.test(value), message);
+  }
+}
+
+export class NumberValidator extends Validator<number> {
+  protected coerce(value: unknown, field: string) {
+    const number = typeof value === "string" ? Number(value) : value;
+    if (typeof number !== "number" || Number.isNaN(number)) return { error: `${field} must be a number` };
+    return { value: number };
+  }
+
+  protected openApiType() {
+    return { type: "number" };
+  }
+
+  int(): this {
+    this.openApiDocs.type = "integer";
+    return this.refine((value) => Number.isInteger(value), "{field} must be an integer");
+  }
+
+  min(min: number): this {
+    this.openApiDocs.minimum = min;
+    return this.refine((value) => value >= min, `{field} must be greater than or equal to ${min}`);
+  }
+
+  max(max: number): this {
+    this.openApiDocs.maximum = max;
+    return this.refine((value) => value <= max, `{field} must be less than or equal to ${max}`);
+  }
+}
+
+export class BooleanValidator extends Validator<boolean> {
+  protected coerce(value: unknown, field: string) {
+    if (typeof value === "boolean") return { value };
+    if (value === "true" || value === "1") return { value: true };
+    if (value === "false" || value === "0") return { value: false };
+    return { error: `${field} must be a boolean` };
+  }
+
+  protected openApiType() {
+    return { type: "boolean" };
+  }
+}
+
+export class DateValidator extends Validator<Date> {
+  protected coerce(value: unknown, field: string) {
+    const date = value instanceof Date ? value : typeof value === "string" || typeof value === "number" ? new Date(value) : undefined;
+    if (!date || Number.isNaN(date.getTime())) return { error: `${field} must be a valid date` };
+    return { value: date };
+  }
+
+  protected openApiType() {
+    return { type: "string", format: "date-time" };
+  }
+}
+
+export class EnumValidator<T extends string> extends Validator<T> {
+  constructor(private readonly values: readonly T[]) {
+    super();
+  }
+
+  protected coerce(value: unknown, field: string) {
+    if (!this.values.includes(value as T)) return { error: `${field} must be one of ${this.values.join(", ")}` };
+    return { value: value as T };
+  }
+
+  protected openApiType() {
+    return { type: "string", enum: [...this.values] };
+  }
+}
+
+export class ArrayValidator<T> extends Validator<T[]> {
+  constructor(private readonly item: Validator<T>) {
+    super();
+  }
+
+  protected coerce(value: unknown, field: string) {
+    // A single query string value (?tags=a) is accepted as a one item array
+    const values = Array.isArray(value) ? value : [value];
+    const result: T[] = [];
+    const errors: string[] = [];
+
+    values.forEach((item, index) => {
+      const parsed = this.item.parse(item, `${field}[${index}]`);
+      if (parsed.errors.length) errors.push(...parsed.errors.map((error) => error.message));
+      else result.push(parsed.value as T);
+    });
+
+    if (errors.length) return { error: errors.join(", ") };
+    return { value: result };
+  }
+
+  protected openApiType() {
+    return { type: "array", items: this.item.toOpenApi() };
+  }
+
+  min(length: number): this {
+    this.openApiDocs.minItems = length;
+    return this.refine((value) => value.length >= length, `{field} must contain at least ${length} items`);
+  }
+
+  max(length: number): this {
+    this.openApiDocs.maxItems = length;
+    return this.refine((value) => value.length <= length, `{field} must contain at most ${length} items`);
+  }
+}
+
+export type Schema<T> = {
+  [K in keyof T]-?: Validator<T[K]>;
+};
+
+export type Infer<S> = {
+  [K in keyof S]: S[K] extends Validator<infer T> ? T : never;
+};
+
+export class ObjectValidator<T> extends Validator<T> {
+  constructor(private readonly schema: Schema<T>) {
+    super();
+  }
+
+  protected coerce(value: unknown, field: string) {
+    if (typeof value !== "object" || Array.isArray(value)) return { error: `${field} must be an object` };
+    return { value: value as T };
+  }
+
+  protected openApiType() {
+    return schemaToOpenApi(this.schema);
+  }
+
+  // Nested objects report every invalid field, prefixed with the parent field name
+  parse(value: unknown, field: string): ParseResult<T> {
+    const result = super.parse(value, field);
+    if (result.errors.length || result.value === undefined) return result;
+
+    return parseSchema(this.schema, result.value, `${field}.`);
+  }
+}
+
+export const v = {
+  string: () => new StringValidator(),
+  number: () => new NumberValidator(),
+  boolean: () => new BooleanValidator(),
+  date: () => new DateValidator(),
+  enum: <T extends string>(values: readonly T[]) => new EnumValidator<T>(values),
+  array: <T>(item: Validator<T>) => new ArrayValidator<T>(item),
+  object: <T>(schema: Schema<T>) => new ObjectValidator<T>(schema),
+};
+
+/**
+ * Validate and coerce an input against a schema
+ * @param schema - schema of the expected input
+ * @param input  - raw input, e.g. `req.body`
+ * @param prefix - prefix of the field names inside the errors
+ * @returns coerced value with unknown keys stripped, or one ErrorStructure per invalid field
+ */
+export function parseSchema<T>(schema: Schema<T>, input: unknown, prefix = ""): ParseResult<T> {
+  const source = (typeof input === "object" && input !== null ? input : {}) as Record<string, unknown>;
+  const value: Record<string, unknown> = {};
+  const errors: ErrorStructure[] = [];
+
+  for (const key in schema) {
+    const parsed = schema[key].parse(source[key], `${prefix}${key}`);
+
+    if (parsed.errors.length) errors.push(...parsed.errors);
+    else if (parsed.value !== undefined) value[key] = parsed.value;
+  }
+
+  if (errors.length) return { errors };
+  return { value: value as T, errors };
+}
+
+// OpenAPI 3 object schema of a whole schema
+export function schemaToOpenApi(schema: Schema<any>): Record<string, any> {
+  const properties: Record<string, any> = {};
+  const required: string[] = [];
+
+  for (const key in schema) {
+    properties[key] = schema[key].toOpenApi();
+    if (schema[key].isRequired()) required.push(key);
+  }
+
+  return { type: "object", properties, ...(required.length > 0 ? { required } : {}) };
+}
+
+const REQUEST_SCHEMAS = Symbol("requestSchemas");
+
+type RequestData = Record<string, unknown>;
+
+export interface RequestSchemas<B = RequestData, Q = RequestData, P = RequestData> {
+  body?: Schema<B>;
+  query?: Schema<Q>;
+  params?: Schema<P>;
+}
+
+// Build a validation middleware, replies 422 with every invalid field across body, query and params
+export function validate<B, Q, P>(schemas: RequestSchemas<B, Q, P>) {
+  const middleware = (req: Request, res: Response, next: NextFunction) => {
+    const errors: ErrorStructure[] = [];
+
+    const body = schemas.body && parseSchema(schemas.body, req.body);
+    const query = schemas.query && parseSchema(schemas.query, req.query);
+    const params = schemas.params && parseSchema(schemas.params, req.params);
+
+    [body, query, params].forEach((result) => result && errors.push(...result.errors));
+
+    if (errors.length !== 0) return response_unprocessable_entity(res, "Validation Error", errors);
+
+    if (body) req.body = body.value;
+    if (query) req.query = query.value as Request["query"];
+    if (params) req.params = params.value as Request["params"];
+
+    next();
+  };
+
+  return Object.assign(middleware, { [REQUEST_SCHEMAS]: schemas });
+}
+
+// Schemas of a middleware built with `validate`, used to document the route
+export function getRequestSchemas(handler: unknown): RequestSchemas | undefined {
+  if (typeof handler !== "function") return undefined;
+  return (handler as { [REQUEST_SCHEMAS]?: RequestSchemas })[REQUEST_SCHEMAS];
+}